@@ -10,5 +10,6 @@ interface ImportMetaEnv {
     VITE_ENABLE_SERVICE_HOST_SELECTION?: string,
     VITE_ENABLE_CLERK_PUB_KEY_SELECTION?: string,
     VITE_DISABLE_CLERK?: string
+    VITE_EXAMPLE_MAX_DEPTH?: string
     // more env variables...
 }
\ No newline at end of file
@@ -2,12 +2,16 @@ import type { App } from 'vue';
 import { useConfigStore } from './stores/config';
 import { dark } from '@clerk/themes';
 import { clerkPlugin } from '@clerk/vue';
+import { clearResourceTimingsWhenFull } from './utils/response-metrics';
 
 import JsonEditorVue from 'vue3-ts-jsoneditor';
 
 export async function bootstrap(app: App<Element>) {
     app.component('JsonEditorVue', JsonEditorVue);
 
+    // Response metrics read Resource Timing entries, which stop being recorded once the buffer is full
+    clearResourceTimingsWhenFull()
+
     // Initialize config store (loads all settings from localStorage and config.json)
     const configStore = useConfigStore()
     await configStore.initialize()
@@ -1,4 +1,6 @@
-import type { ServiceHost } from '@/utils/types'
+import type { RequestScripts, ServiceHost } from '@/utils/types'
+import type { SnippetLanguage } from '@/utils/code-snippets'
+import type { CaptureRule } from '@/utils/response-capture'
 
 const LOCAL_STORAGE_PREFIX = 'o-s-'
 
@@ -11,6 +13,11 @@ const STORAGE_KEYS = {
     EXAMPLES_SIDEBAR_COLLAPSED: 'examples-sidebar-collapsed',
     ENDPOINTS_SIDEBAR_WIDTH: 'endpoints-sidebar-width',
     EXAMPLES_SIDEBAR_WIDTH: 'examples-sidebar-width',
+    BLOCK_INVALID_REQUESTS: 'block-invalid-requests',
+    REQUEST_TIMEOUT: 'request-timeout',
+    SNIPPET_LANGUAGE: 'snippet-language',
+    CAPTURE_RULES: 'capture-rules',
+    REQUEST_SCRIPTS: 'request-scripts',
 } as const
 
 type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS]
@@ -179,6 +186,51 @@ export function useLocalStorage() {
         setItem(STORAGE_KEYS.EXAMPLES_SIDEBAR_WIDTH, width)
     }
 
+    // Actions - Request Validation
+    function loadBlockInvalidRequests(): boolean {
+        return getItem<boolean>(STORAGE_KEYS.BLOCK_INVALID_REQUESTS, true)
+    }
+
+    function saveBlockInvalidRequests(block: boolean): void {
+        setItem(STORAGE_KEYS.BLOCK_INVALID_REQUESTS, block)
+    }
+
+    // Actions - Request Timeout (seconds, 0 = no timeout)
+    function loadRequestTimeout(): number {
+        return getItem<number>(STORAGE_KEYS.REQUEST_TIMEOUT, 0)
+    }
+
+    function saveRequestTimeout(seconds: number): void {
+        setItem(STORAGE_KEYS.REQUEST_TIMEOUT, seconds)
+    }
+
+    // Actions - Code Snippets
+    function loadSnippetLanguage(): SnippetLanguage {
+        return getItem<SnippetLanguage>(STORAGE_KEYS.SNIPPET_LANGUAGE, 'curl')
+    }
+
+    function saveSnippetLanguage(language: SnippetLanguage): void {
+        setItem(STORAGE_KEYS.SNIPPET_LANGUAGE, language)
+    }
+
+    // Actions - Capture Rules, keyed by `${method}:${path}`
+    function loadCaptureRules(): Record<string, CaptureRule[]> {
+        return getItem<Record<string, CaptureRule[]>>(STORAGE_KEYS.CAPTURE_RULES, {})
+    }
+
+    function saveCaptureRules(rules: Record<string, CaptureRule[]>): void {
+        setItem(STORAGE_KEYS.CAPTURE_RULES, rules)
+    }
+
+    // Actions - Request Scripts, keyed by `${method}:${path}`
+    function loadRequestScripts(): Record<string, RequestScripts> {
+        return getItem<Record<string, RequestScripts>>(STORAGE_KEYS.REQUEST_SCRIPTS, {})
+    }
+
+    function saveRequestScripts(scripts: Record<string, RequestScripts>): void {
+        setItem(STORAGE_KEYS.REQUEST_SCRIPTS, scripts)
+    }
+
     return {
         // Clerk Key
         saveClerkPublishableKey,
@@ -205,5 +257,20 @@ export function useLocalStorage() {
         saveEndpointsSidebarWidth,
         loadExamplesSidebarWidth,
         saveExamplesSidebarWidth,
+        // Request Validation
+        loadBlockInvalidRequests,
+        saveBlockInvalidRequests,
+        // Request Timeout
+        loadRequestTimeout,
+        saveRequestTimeout,
+        // Code Snippets
+        loadSnippetLanguage,
+        saveSnippetLanguage,
+        // Capture Rules
+        loadCaptureRules,
+        saveCaptureRules,
+        // Request Scripts
+        loadRequestScripts,
+        saveRequestScripts,
     }
 }
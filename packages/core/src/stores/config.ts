@@ -4,7 +4,8 @@ import { useLocalStorage, } from '@/composables/useLocalStorage'
 import { useConfigJson } from '@/composables/useConfigJson'
 import { useFeaturesToggle } from '@/composables/useFeaturesToggle'
 import { useOpenApiStore } from '@/stores/openapi'
-import type { Config, ServiceHost } from '@/utils/types'
+import { DEFAULT_EXAMPLE_MAX_DEPTH } from '@/utils/example-generator'
+import type { Config, Environment, HeaderEntry, RequestScripts, ServiceHost } from '@/utils/types'
 
 /**
  * Config store that manages configuration from config.json, localStorage, and environment variables
@@ -43,6 +44,7 @@ export const useConfigStore = defineStore('config', () => {
                 serviceHost: import.meta.env.VITE_SERVICE_HOST,
                 clerkPublishableKey: import.meta.env.VITE_CLERK_PUBLISHABLE_KEY,
                 openApiSpecUrl: import.meta.env.VITE_OPENAPI_SPEC_URL,
+                ...(import.meta.env.VITE_EXAMPLE_MAX_DEPTH ? { exampleMaxDepth: Number(import.meta.env.VITE_EXAMPLE_MAX_DEPTH) } : {}),
             },
             json: configJsonService.config.value ?? {},
             localStorage: selectedServiceHost.value ? {
@@ -82,6 +84,10 @@ export const useConfigStore = defineStore('config', () => {
     const openApiSpecUrl = computed((): string | null => {
         return mergedConfig.value.openApiSpecUrl ?? null
     });
+    const exampleMaxDepth = computed((): number => {
+        const depth = Number(mergedConfig.value.exampleMaxDepth)
+        return Number.isFinite(depth) && depth > 0 ? depth : DEFAULT_EXAMPLE_MAX_DEPTH
+    });
 
     /**
      * Computed property that checks if a valid service host is available
@@ -203,6 +209,116 @@ export const useConfigStore = defineStore('config', () => {
         saveClerkPublishableKeyForSelectedHost('')
     }
 
+    /**
+     * Apply changes to the selected service host, in localStorage and in memory
+     */
+    const updateSelectedHost = (patch: Partial<ServiceHost>): void => {
+        const selectedHost = selectedServiceHost.value
+        if (!selectedHost) return
+
+        const updatedHost: ServiceHost = { ...selectedHost, ...patch }
+
+        // Update in localStorage
+        localStorageService.addServiceHost(updatedHost)
+
+        // Update in-memory state
+        const index = serviceHosts.value.findIndex(h => h.id === selectedHost.id)
+        if (index >= 0) {
+            serviceHosts.value[index] = updatedHost
+        }
+        selectedServiceHost.value = updatedHost
+    }
+
+    const defaultHeaders = computed((): HeaderEntry[] => {
+        return selectedServiceHost.value?.defaultHeaders ?? []
+    })
+
+    /**
+     * Save the default request headers for the selected service host
+     */
+    const saveDefaultHeadersForSelectedHost = (headers: HeaderEntry[]): void => {
+        updateSelectedHost({
+            defaultHeaders: headers.length > 0 ? headers.map(header => ({ ...header })) : undefined
+        })
+    }
+
+    // Timeout override of the selected service host in seconds, or null to use the global timeout
+    const hostRequestTimeout = computed((): number | null => {
+        return selectedServiceHost.value?.requestTimeout ?? null
+    })
+
+    /**
+     * Save the request timeout override for the selected service host (null clears it)
+     */
+    const saveRequestTimeoutForSelectedHost = (seconds: number | null): void => {
+        updateSelectedHost({
+            requestTimeout: seconds === null ? undefined : seconds
+        })
+    }
+
+    const environments = computed((): Environment[] => {
+        return selectedServiceHost.value?.environments ?? []
+    })
+
+    // Environment `{{variables}}` are resolved against, or null when none is active
+    const activeEnvironment = computed((): Environment | null => {
+        const host = selectedServiceHost.value
+        return host?.environments?.find(environment => environment.id === host.activeEnvironmentId) ?? null
+    })
+
+    /**
+     * Save the environments of the selected service host and which one is active
+     */
+    const saveEnvironmentsForSelectedHost = (updated: Environment[], activeEnvironmentId: string | null = activeEnvironment.value?.id ?? null): void => {
+        updateSelectedHost({
+            environments: updated.length > 0
+                ? updated.map(environment => ({ ...environment, variables: environment.variables.map(variable => ({ ...variable })) }))
+                : undefined,
+            activeEnvironmentId: activeEnvironmentId && updated.some(environment => environment.id === activeEnvironmentId)
+                ? activeEnvironmentId
+                : undefined
+        })
+    }
+
+    /**
+     * Make an environment of the selected service host active (null deactivates environments)
+     */
+    const selectEnvironmentForSelectedHost = (id: string | null): void => {
+        saveEnvironmentsForSelectedHost(environments.value, id)
+    }
+
+    /**
+     * Set variables of the active environment, adding the ones it doesn't define yet
+     */
+    const setActiveEnvironmentVariables = (values: Record<string, string>): void => {
+        const environment = activeEnvironment.value
+        if (!environment) return
+
+        const variables = environment.variables.map(variable => ({ ...variable }))
+        for (const [name, value] of Object.entries(values)) {
+            const existing = variables.find(variable => variable.name.trim() === name)
+            if (existing) {
+                existing.value = value
+            } else {
+                variables.push({ name, value, enabled: true, secret: false })
+            }
+        }
+        saveEnvironmentsForSelectedHost(environments.value.map(item => item.id === environment.id ? { ...item, variables } : item))
+    }
+
+    const hostScripts = computed((): RequestScripts => {
+        return selectedServiceHost.value?.scripts ?? {}
+    })
+
+    /**
+     * Save the pre-request and post-response scripts of the selected service host
+     */
+    const saveScriptsForSelectedHost = (scripts: RequestScripts): void => {
+        updateSelectedHost({
+            scripts: scripts.preRequest?.trim() || scripts.postResponse?.trim() ? { ...scripts } : undefined
+        })
+    }
+
     const isServiceHostPickerEnabled = computed(() => featuresToggle.isServiceHostPickerEnabled && !mergedConfig.value.defaultServiceHostToWindowOrigin)
     const isClerkEnabled = computed(() => featuresToggle.isClerkEnabled)
     const isClerkPublishableKeyChangeEnabled = computed(() => featuresToggle.isClerkPublishableKeyChangeEnabled)
@@ -215,6 +331,12 @@ export const useConfigStore = defineStore('config', () => {
         serviceHost,
         clerkPublishableKey,
         openApiSpecUrl,
+        exampleMaxDepth,
+        defaultHeaders,
+        hostRequestTimeout,
+        environments,
+        activeEnvironment,
+        hostScripts,
         hasServiceHost,
         config: mergedConfig,
         // Config loading
@@ -229,6 +351,16 @@ export const useConfigStore = defineStore('config', () => {
         // Clerk key management
         saveClerkPublishableKeyForSelectedHost,
         clearClerkPublishableKeyForSelectedHost,
+        // Default headers management
+        saveDefaultHeadersForSelectedHost,
+        // Request timeout management
+        saveRequestTimeoutForSelectedHost,
+        // Environment management
+        saveEnvironmentsForSelectedHost,
+        selectEnvironmentForSelectedHost,
+        setActiveEnvironmentVariables,
+        // Scripts management
+        saveScriptsForSelectedHost,
         // Feature toggles (merged from useFeaturesToggle)
         isServiceHostPickerEnabled,
         isClerkEnabled,
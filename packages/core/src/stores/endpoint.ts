@@ -1,5 +1,13 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
+import type { HeaderEntry, RequestScripts } from '@/utils/types'
+import type { FormField } from '@/utils/request-body'
+import type { ContractCheckResult } from '@/utils/contract-check'
+import type { ResponseMetrics } from '@/utils/response-metrics'
+import type { StreamEvent } from '@/utils/stream-parser'
+import type { CaptureResult, CaptureRule } from '@/utils/response-capture'
+import type { ScriptRunResult } from '@/utils/script-sandbox'
+import { useLocalStorage } from '@/composables/useLocalStorage'
 
 export type RequestHistoryItem = {
     id: string
@@ -7,31 +15,77 @@ export type RequestHistoryItem = {
     method: string
     path: string
     url: string
+    // Media type the body was sent as (null when the operation has no request body)
+    requestContentType: string | null
     requestBody: any
     requestQuery: Record<string, any>
     requestUrlParams: Record<string, any>
+    // Values of the operation's `in: header` / `in: cookie` parameters
+    requestHeaders: Record<string, any>
+    requestCookies: Record<string, any>
     headers: Record<string, string>
     response: any
     responseError: string | null
+    // Why the request failed: cancelled by the user, timed out, a pre-request script failed, or a network / client error
+    errorKind: 'aborted' | 'timeout' | 'script' | 'network' | null
+    // Result of checking the response against the operation's documented responses
+    contractCheck: ContractCheckResult | null
+    // Timing and size of the response; null when no response arrived
+    metrics: ResponseMetrics | null
+    // Events captured from a Server-Sent Events or NDJSON stream; null for regular responses
+    streamEvents: StreamEvent[] | null
     status?: number
     statusText?: string
     authScheme: string | null
+    // Request as typed, when it references `{{variables}}`; the fields above hold the resolved values
+    template: RequestTemplate | null
+    // Environment active when the request was sent; its secret values are masked wherever the item is shown
+    environment: { name: string; secretValues: string[] } | null
+    // Values the endpoint's capture rules saved into the environment after a successful response
+    captures: CaptureResult[] | null
+    // Pre-request and post-response scripts that ran, in order, with their test results, logs and errors
+    scripts: ScriptRunResult[]
+}
+
+// Request values before `{{variables}}` were resolved
+export type RequestTemplate = Pick<RequestHistoryItem, 'url' | 'headers' | 'requestBody' | 'requestQuery' | 'requestUrlParams' | 'requestHeaders' | 'requestCookies'> & {
+    // Variables the environment didn't define; they were sent as typed
+    unresolvedVariables: string[]
 }
 
 export type EndpointFormState = {
     requestQuery: Record<string, any>
     requestUrlParams: Record<string, any>
+    requestHeaders: Record<string, any>
+    requestCookies: Record<string, any>
+    // Free-form headers for this request; they override the host's default headers
+    customHeaders: HeaderEntry[]
     requestBody: string
+    // Selected request body media type and the editors used for non-JSON types
+    requestContentType: string | null
+    formFields: FormField[]
+    binaryFile: File | null
     selectedAuthScheme: string | null
+    // Seed of the generated body example, so it can be reproduced
+    exampleSeed?: number
+    // Selected oneOf/anyOf branch of the request body schema
+    selectedVariant?: number
+    // Name of the named example loaded into the body, if any
+    selectedBodyExample?: string | null
 }
 
 export const useEndpointStore = defineStore('endpoint', () => {
+    const localStorageService = useLocalStorage()
+
     // Selected endpoint
     const selectedPath = ref<string | null>(null)
     const selectedMethod = ref<string | null>(null)
     
     // Auth scheme selection
     const selectedAuthScheme = ref<string | null>(null)
+
+    // Credentials entered per security scheme, keyed by scheme name then field (value, username, token, …)
+    const authCredentials = ref<Record<string, Record<string, string>>>({})
     
     // Security scheme menu state
     const authMenuOpen = ref<boolean>(false)
@@ -41,6 +95,12 @@ export const useEndpointStore = defineStore('endpoint', () => {
     
     // Form state per endpoint (dirty state preservation)
     const endpointFormState = ref<Map<string, EndpointFormState>>(new Map())
+
+    // Response capture rules per endpoint, persisted in localStorage
+    const captureRules = ref<Record<string, CaptureRule[]>>(localStorageService.loadCaptureRules())
+
+    // Pre-request / post-response scripts per endpoint, persisted in localStorage
+    const requestScripts = ref<Record<string, RequestScripts>>(localStorageService.loadRequestScripts())
     
     // Helper to get endpoint key
     const getEndpointKey = (path: string | null, method: string | null): string | null => {
@@ -90,6 +150,14 @@ export const useEndpointStore = defineStore('endpoint', () => {
         }
     }
     
+    function updateAuthCredential(schemeName: string, field: string, value: string) {
+        authCredentials.value[schemeName] = { ...(authCredentials.value[schemeName] ?? {}), [field]: value }
+    }
+
+    function clearAuthCredential(schemeName: string) {
+        delete authCredentials.value[schemeName]
+    }
+
     function toggleAuthMenu() {
         authMenuOpen.value = !authMenuOpen.value
     }
@@ -129,6 +197,38 @@ export const useEndpointStore = defineStore('endpoint', () => {
         endpointFormState.value.delete(key)
     }
     
+    function getCaptureRules(path: string, method: string): CaptureRule[] {
+        const key = getEndpointKey(path, method)
+        return key ? captureRules.value[key] ?? [] : []
+    }
+
+    function saveCaptureRules(path: string, method: string, rules: CaptureRule[]) {
+        const key = getEndpointKey(path, method)
+        if (!key) return
+        if (rules.length > 0) {
+            captureRules.value[key] = rules.map(rule => ({ ...rule }))
+        } else {
+            delete captureRules.value[key]
+        }
+        localStorageService.saveCaptureRules(captureRules.value)
+    }
+
+    function getRequestScripts(path: string, method: string): RequestScripts {
+        const key = getEndpointKey(path, method)
+        return key ? requestScripts.value[key] ?? {} : {}
+    }
+
+    function saveRequestScripts(path: string, method: string, scripts: RequestScripts) {
+        const key = getEndpointKey(path, method)
+        if (!key) return
+        if (scripts.preRequest?.trim() || scripts.postResponse?.trim()) {
+            requestScripts.value[key] = { ...scripts }
+        } else {
+            delete requestScripts.value[key]
+        }
+        localStorageService.saveRequestScripts(requestScripts.value)
+    }
+
     function addRequestHistory(item: RequestHistoryItem) {
         requestHistory.value.unshift(item)
     }
@@ -148,9 +248,12 @@ export const useEndpointStore = defineStore('endpoint', () => {
         selectedPath,
         selectedMethod,
         selectedAuthScheme,
+        authCredentials,
         authMenuOpen,
         requestHistory,
         endpointFormState,
+        captureRules,
+        requestScripts,
         // Computed
         currentEndpointKey,
         currentFormState,
@@ -159,12 +262,18 @@ export const useEndpointStore = defineStore('endpoint', () => {
         setSelectedEndpoint,
         setSelectedAuthScheme,
         toggleSelectedAuthScheme,
+        updateAuthCredential,
+        clearAuthCredential,
         toggleAuthMenu,
         openAuthMenu,
         closeAuthMenu,
         saveEndpointFormState,
         getEndpointFormState,
         clearEndpointFormState,
+        getCaptureRules,
+        saveCaptureRules,
+        getRequestScripts,
+        saveRequestScripts,
         addRequestHistory,
         clearEndpointHistory,
         clearAllHistory,
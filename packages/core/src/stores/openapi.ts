@@ -1,15 +1,79 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
+import { ref, shallowRef, computed } from 'vue'
 import type { OpenAPIV3 } from 'openapi-types'
 import { useConfigStore } from '@/stores/config'
+import { parseSpecText } from '@/utils/spec-format'
+import { bundleDocument, resolveLocalReference } from '@/utils/ref-resolver'
+import { convertSwagger2ToOpenApi3, isSwagger2Document } from '@/utils/swagger2-converter'
+import {
+    createExampleGenerator,
+    type ExampleGenerationOptions,
+    type ExampleGenerationResult,
+    type ExampleValueGenerator,
+} from '@/utils/example-generator'
+import { createSchemaValidator, type SchemaValidationOptions, type ValidationError } from '@/utils/schema-validator'
+import { checkResponseContract as checkContract, type ContractCheckResult } from '@/utils/contract-check'
+import {
+    anchorEmbeddedDefinitionRefs,
+    describeSchemaType,
+    getSchemaVariants as getSchemaObjectVariants,
+    hasSchemaType,
+    isOmittedInMode,
+    isReadOnly,
+    isReferenceObject,
+    isWriteOnly,
+    resolveEmbeddedDefinition,
+    type OpenApiDocument,
+    type SchemaObject,
+    type SchemaMode,
+    type SchemaOrRef,
+    type SchemaVariant,
+} from '@/utils/schema'
+
+export type EndpointEntry = {
+    path: string
+    method: string
+    operation: OpenAPIV3.OperationObject
+    // OpenAPI 3.1 webhooks are keyed by name instead of path and describe requests the API sends
+    isWebhook?: boolean
+}
+
+export type NamedExample = {
+    name: string
+    summary?: string
+    description?: string
+    // Inline value; absent when the example only has an externalValue
+    value?: any
+    // URL of the example payload, relative to the spec
+    externalValue?: string
+}
+
+export type SchemaDisplayOptions = {
+    // Marks the selected oneOf/anyOf branch at the root of the schema
+    activeVariant?: number
+    mode?: SchemaMode
+}
+
+type ExamplesMap = Record<string, OpenAPIV3.ExampleObject | OpenAPIV3.ReferenceObject>
 
 export const useOpenApiStore = defineStore('openapi', () => {
     const config = useConfigStore()
     
     // State
-    const openApiSpec = ref<OpenAPIV3.Document | null>(null)
+    // Bundled document: external and relative $refs are inlined into `components` on load
+    const openApiSpec = ref<OpenApiDocument | null>(null)
+    const externalDocuments = ref<string[]>([])
+    const specWarnings = ref<string[]>([])
+    // `swagger` / `openapi` version of the document as published, before any conversion
+    const sourceSpecVersion = ref<string | null>(null)
+    // Absolute URL the spec was loaded from; relative `externalValue`s resolve against it
+    const specBaseUrl = ref<string | null>(null)
     const loading = ref(true)
     const error = ref<string | null>(null)
+    // Fetched `externalValue` payloads, keyed by absolute URL
+    const externalExampleValues = new Map<string, Promise<any>>()
+    // Value generators registered by plugins, tried before the built-in ones
+    const exampleValueGenerators = shallowRef<ExampleValueGenerator[]>([])
 
     // Computed
     const openApiSpecUrl = computed(() => {
@@ -19,25 +83,39 @@ export const useOpenApiStore = defineStore('openapi', () => {
     const endpoints = computed(() => {
         if (!openApiSpec.value) return []
 
-        const result: Array<{ path: string; method: string; operation: OpenAPIV3.OperationObject }> = []
+        const result: EndpointEntry[] = []
+        const collect = (items: Record<string, OpenAPIV3.PathItemObject | OpenAPIV3.ReferenceObject | undefined> | undefined, isWebhook: boolean) => {
+            for (const [path, item] of Object.entries(items ?? {})) {
+                const pathItem = resolvePathItem(item)
+                if (!pathItem) continue
 
-        for (const [path, pathItem] of Object.entries(openApiSpec.value.paths)) {
-            if (!pathItem) continue
-
-            for (const method of ['get', 'post', 'put', 'patch', 'delete'] as const) {
-                const operation = pathItem[method]
-                if (operation) {
-                    result.push({ path, method: method.toUpperCase(), operation })
+                for (const method of ['get', 'post', 'put', 'patch', 'delete'] as const) {
+                    const operation = pathItem[method]
+                    if (operation) {
+                        result.push({ path, method: method.toUpperCase(), operation, ...(isWebhook ? { isWebhook } : {}) })
+                    }
                 }
             }
         }
 
+        // 3.1 documents may have webhooks and no paths at all
+        collect(openApiSpec.value.paths, false)
+        collect(openApiSpec.value.webhooks, true)
+
         return result.sort((a, b) => {
+            if (!!a.isWebhook !== !!b.isWebhook) return a.isWebhook ? 1 : -1
             if (a.path !== b.path) return a.path.localeCompare(b.path)
             return a.method.localeCompare(b.method)
         })
     })
 
+    const exampleGenerator = computed(() => createExampleGenerator({
+        resolveReference,
+        valueGenerators: exampleValueGenerators.value,
+    }))
+
+    const schemaValidator = computed(() => createSchemaValidator({ resolveReference }))
+
     const securitySchemes = computed(() => {
         if (!openApiSpec.value?.components?.securitySchemes) {
             return []
@@ -69,10 +147,15 @@ export const useOpenApiStore = defineStore('openapi', () => {
         return openApiSpec.value?.info?.version || null
     })
 
+    const isConvertedFromSwagger2 = computed(() => {
+        return !!sourceSpecVersion.value?.startsWith('2.')
+    })
+
     // Actions
     async function loadSpec(url?: string) {
         loading.value = true
         error.value = null
+        specWarnings.value = []
 
 
         console.log('loadSpec', url, openApiSpecUrl.value)
@@ -82,7 +165,48 @@ export const useOpenApiStore = defineStore('openapi', () => {
             if (!response.ok) {
                 throw new Error(`Failed to fetch OpenAPI spec: ${response.statusText}`)
             }
-            openApiSpec.value = await response.json()
+            // Specs may be published as JSON or YAML
+            const text = await response.text()
+            let document: any
+            try {
+                document = parseSpecText(text, response.headers.get('content-type'), specUrl)
+            } catch (parseErr) {
+                const reason = parseErr instanceof Error ? parseErr.message : String(parseErr)
+                throw new Error(`Failed to parse OpenAPI spec: ${reason}`)
+            }
+            if (!document || typeof document !== 'object') {
+                throw new Error('Failed to parse OpenAPI spec: document is not an object')
+            }
+
+            const baseUrl = typeof window !== 'undefined' ? window.location.href : undefined
+            const absoluteSpecUrl = new URL(specUrl, baseUrl).href
+
+            const specVersion: string | null = document.swagger ?? document.openapi ?? null
+
+            // Swagger 2.0 documents are converted to OpenAPI 3 so the rest of the UI can stay on OAS3
+            const warnings: string[] = []
+            if (isSwagger2Document(document)) {
+                const conversion = convertSwagger2ToOpenApi3(document, absoluteSpecUrl)
+                document = conversion.document
+                warnings.push(...conversion.warnings)
+            }
+
+            // Inline external and relative $refs, resolved relative to the spec URL
+            const bundle = await bundleDocument<OpenApiDocument>(document, absoluteSpecUrl)
+            warnings.push(...bundle.warnings)
+            for (const warning of warnings) {
+                console.warn(warning)
+            }
+            // `#/$defs/...` refs in component schemas point into the component, not the document root
+            anchorEmbeddedDefinitionRefs(bundle.document)
+
+            // Only a document that loaded replaces the current one, with everything derived from its URL
+            sourceSpecVersion.value = specVersion
+            specBaseUrl.value = absoluteSpecUrl
+            externalExampleValues.clear()
+            externalDocuments.value = bundle.externalDocuments
+            specWarnings.value = warnings
+            openApiSpec.value = bundle.document
         } catch (err) {
             console.log(err)
             error.value = err instanceof Error ? err.message : 'Failed to load OpenAPI spec'
@@ -92,17 +216,9 @@ export const useOpenApiStore = defineStore('openapi', () => {
     }
 
     // Utility functions
-    function resolveReference<T = any>(ref: string | { $ref: string }, spec: OpenAPIV3.Document): T | null {
-        const refPath = (typeof ref === 'string' ? ref : ref.$ref).replace('#/', '').split('/')
-        let refValue: any = spec
-        for (const part of refPath) {
-            if (refValue && typeof refValue === 'object' && part in refValue) {
-                refValue = refValue[part]
-            } else {
-                return null
-            }
-        }
-        return refValue as T | null
+    function resolveReference<T = any>(ref: string | { $ref: string }, spec: OpenApiDocument): T | null {
+        const refString = typeof ref === 'string' ? ref : ref.$ref
+        return resolveLocalReference<T>(spec, refString) ?? resolveEmbeddedDefinition<T>(spec, refString)
     }
 
     function resolveParameter(param: OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject): OpenAPIV3.ParameterObject | null {
@@ -126,123 +242,78 @@ export const useOpenApiStore = defineStore('openapi', () => {
         return null
     }
 
-    function generateExampleFromSchema(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined, spec: OpenAPIV3.Document): any {
-        if (!schema || typeof schema !== 'object') return null
-
-        // Handle references
-        if ('$ref' in schema && schema.$ref) {
-            const refValue = resolveReference<OpenAPIV3.SchemaObject>(schema.$ref, spec)
-            if (!refValue || typeof refValue !== 'object') return null
-            return generateExampleFromSchema(refValue, spec)
-        }
-
-        // Handle examples if present
-        if ('example' in schema && schema.example !== undefined) {
-            return schema.example
-        }
-
-        // Handle enum
-        if ('enum' in schema && schema.enum && schema.enum.length > 0) {
-            return schema.enum[0]
-        }
-
-        // Handle different types - schema is guaranteed to be SchemaObject here (not ReferenceObject)
-        const schemaObj = schema as OpenAPIV3.SchemaObject
-        const type = schemaObj.type || (schemaObj.anyOf ? 'anyOf' : schemaObj.oneOf ? 'oneOf' : schemaObj.allOf ? 'allOf' : 'object')
-
-        switch (type) {
-            case 'string':
-                if ('format' in schemaObj) {
-                    switch (schemaObj.format) {
-                        case 'date':
-                            return '2024-01-01'
-                        case 'date-time':
-                            return '2024-01-01T00:00:00Z'
-                        case 'email':
-                            return 'example@example.com'
-                        case 'uri':
-                            return 'https://example.com'
-                        case 'uuid':
-                            return '123e4567-e89b-12d3-a456-426614174000'
-                    }
-                }
-                return ('default' in schemaObj && schemaObj.default !== undefined) ? schemaObj.default : 'string'
-
-            case 'number':
-            case 'integer':
-                return ('default' in schemaObj && schemaObj.default !== undefined) ? schemaObj.default : (type === 'integer' ? 0 : 0.0)
+    /**
+     * Generates an example value for a schema with the active generator (built-in value
+     * generators plus any registered ones). Pass a `seed` to reproduce or vary the example.
+     */
+    function generateExample(schema: SchemaOrRef | undefined, spec: OpenApiDocument, options: ExampleGenerationOptions = {}): ExampleGenerationResult {
+        return exampleGenerator.value.generate(schema, spec, {
+            ...options,
+            maxDepth: options.maxDepth ?? config.exampleMaxDepth,
+        })
+    }
 
-            case 'boolean':
-                return ('default' in schemaObj && schemaObj.default !== undefined) ? schemaObj.default : false
+    function generateExampleFromSchema(schema: SchemaOrRef | undefined, spec: OpenApiDocument, options: ExampleGenerationOptions = {}): any {
+        return generateExample(schema, spec, options).example
+    }
 
-            case 'array':
-                if ('items' in schema && schema.items) {
-                    const itemExample = generateExampleFromSchema(schema.items, spec)
-                    return schema.minItems && schema.minItems > 0
-                        ? Array(schema.minItems).fill(itemExample)
-                        : [itemExample]
-                }
-                return []
-
-            case 'object':
-                const obj: Record<string, any> = {}
-                if ('properties' in schema && schema.properties) {
-                    for (const [key, propSchema] of Object.entries(schema.properties)) {
-                        if ('required' in schema && schema.required && schema.required.includes(key)) {
-                            obj[key] = generateExampleFromSchema(propSchema, spec)
-                        } else if (!('required' in schema)) {
-                            // If no required array, include all properties
-                            obj[key] = generateExampleFromSchema(propSchema, spec)
-                        }
-                    }
-                }
-                return obj
+    /**
+     * Validates a value against a schema of the loaded spec; no spec means nothing to check against
+     */
+    function validateValue(schema: SchemaOrRef | null | undefined, value: unknown, options: SchemaValidationOptions = {}): ValidationError[] {
+        if (!openApiSpec.value) return []
+        return schemaValidator.value.validate(schema, value, openApiSpec.value, options)
+    }
 
-            case 'anyOf':
-                if ('anyOf' in schema && schema.anyOf && schema.anyOf.length > 0) {
-                    return generateExampleFromSchema(schema.anyOf[0], spec)
-                }
-                return {}
+    /**
+     * Registers a value generator that takes precedence over the built-in ones.
+     * A generator with the same name replaces the previously registered one.
+     */
+    function registerExampleValueGenerator(generator: ExampleValueGenerator) {
+        exampleValueGenerators.value = [generator, ...exampleValueGenerators.value.filter(g => g.name !== generator.name)]
+    }
 
-            case 'oneOf':
-                if ('oneOf' in schema && schema.oneOf && schema.oneOf.length > 0) {
-                    return generateExampleFromSchema(schema.oneOf[0], spec)
-                }
-                return {}
-
-            case 'allOf':
-                if ('allOf' in schema && schema.allOf) {
-                    const merged: Record<string, any> = {}
-                    for (const subSchema of schema.allOf) {
-                        const example = generateExampleFromSchema(subSchema, spec)
-                        if (typeof example === 'object' && example !== null && !Array.isArray(example)) {
-                            Object.assign(merged, example)
-                        }
-                    }
-                    return merged
-                }
-                return {}
+    function unregisterExampleValueGenerator(name: string) {
+        exampleValueGenerators.value = exampleValueGenerators.value.filter(g => g.name !== name)
+    }
 
-            default:
-                return null
-        }
+    /**
+     * Lists the oneOf/anyOf branches at the root of a schema, following $refs
+     */
+    function getSchemaVariants(schema: SchemaOrRef | null | undefined, spec: OpenApiDocument): SchemaVariant[] {
+        if (!schema || typeof schema !== 'object') return []
+        const resolved = isReferenceObject(schema) ? resolveReference<SchemaObject>(schema.$ref, spec) : schema
+        if (!resolved || typeof resolved !== 'object') return []
+        return getSchemaObjectVariants(resolved)
     }
 
-    function formatSchemaForDisplay(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined, spec: OpenAPIV3.Document, visited = new Set<string>(), level = 0, propertyName?: string): string {
+    /**
+     * Renders a schema as an indented outline.
+     * With a `mode`, properties that don't apply in that direction are left out; readOnly and
+     * writeOnly properties are badged either way.
+     */
+    function formatSchemaForDisplay(schema: SchemaOrRef | undefined, spec: OpenApiDocument, visited = new Set<string>(), level = 0, propertyName?: string, options: SchemaDisplayOptions = {}): string {
         if (!schema || typeof schema !== 'object') return ''
 
         const indent = '  '.repeat(level)
+        const childOptions: SchemaDisplayOptions = { mode: options.mode }
+        const accessBadges = (...schemas: SchemaOrRef[]) => {
+            let badges = ''
+            if (schemas.some(isReadOnly)) badges += ' [read-only]'
+            if (schemas.some(isWriteOnly)) badges += ' [write-only]'
+            return badges
+        }
         let output = ''
 
         // Handle references
-        if ('$ref' in schema && schema.$ref) {
+        if (isReferenceObject(schema)) {
             // Prevent circular references
             if (visited.has(schema.$ref)) {
                 return `${indent}${propertyName || ''} → ${schema.$ref.split('/').pop()} ⚠ circular\n`
             }
             visited.add(schema.$ref)
 
-            const refValue = resolveReference<OpenAPIV3.SchemaObject>(schema.$ref, spec)
+            const refValue = resolveReference<SchemaObject>(schema.$ref, spec)
             if (!refValue || typeof refValue !== 'object') {
                 visited.delete(schema.$ref)
                 return `${indent}${propertyName || ''} → ${schema.$ref.split('/').pop()} (invalid)\n`
@@ -252,103 +323,124 @@ export const useOpenApiStore = defineStore('openapi', () => {
             const refName = schema.$ref.split('/').pop() || 'Unknown'
             if (propertyName !== undefined) {
                 const isRequired = false // We don't have required info here
-                output += `${indent}${propertyName}${isRequired ? '*' : ''} → ${refName}\n`
+                output += `${indent}${propertyName}${isRequired ? '*' : ''} → ${refName}${accessBadges(schema, refValue)}\n`
                 // Show the referenced schema content
-                output += formatSchemaForDisplay(refValue, spec, visited, level, undefined)
+                output += formatSchemaForDisplay(refValue, spec, visited, level, undefined, childOptions)
             } else {
                 output += `${indent}→ ${refName}\n`
-                output += formatSchemaForDisplay(refValue, spec, visited, level, undefined)
+                output += formatSchemaForDisplay(refValue, spec, visited, level, undefined, options)
             }
             visited.delete(schema.$ref)
             return output
         }
 
         // Get type information
-        const getTypeString = (s: any): string => {
-            if (s.type === 'array' && s.items) {
-                const itemType = getTypeString(s.items)
-                return `Array<${itemType}>`
-            }
-            if (s.type) {
-                let typeStr = s.type
-                if (s.format) {
-                    typeStr = `${s.type}(${s.format})`
-                }
-                if (s.enum) {
-                    typeStr = `${typeStr} | ${s.enum.map((e: any) => JSON.stringify(e)).join(' | ')}`
-                }
-                return typeStr
-            }
-            if (s.allOf) return 'allOf'
-            if (s.anyOf) return 'anyOf'
-            if (s.oneOf) return 'oneOf'
-            return 'object'
-        }
-
-        const typeStr = getTypeString(schema)
-        const isRequired = propertyName && 'required' in schema && schema.required && Array.isArray(schema.required) && schema.required.includes(propertyName)
+        const typeStr = describeSchemaType(schema)
+        const isRequired = propertyName && Array.isArray(schema.required) && schema.required.includes(propertyName)
 
         // Format property line
         if (propertyName !== undefined) {
-            output += `${indent}${propertyName}${isRequired ? '*' : ''}: ${typeStr}`
-            if ('description' in schema && schema.description) {
+            output += `${indent}${propertyName}${isRequired ? '*' : ''}: ${typeStr}${accessBadges(schema)}`
+            if (schema.description) {
                 output += `  // ${schema.description}`
             }
             output += '\n'
-        } else if (level === 0 && 'properties' in schema) {
+        } else if (level === 0 && schema.properties) {
             // Root level - show as object
             output += `${indent}{\n`
         }
 
         // Properties
-        if ('properties' in schema && schema.properties) {
+        if (schema.properties) {
             for (const [key, propSchema] of Object.entries(schema.properties)) {
-                output += formatSchemaForDisplay(propSchema as any, spec, visited, level + 1, key)
+                const resolved = isReferenceObject(propSchema) ? resolveReference<SchemaObject>(propSchema.$ref, spec) : null
+                if (isOmittedInMode([propSchema as SchemaOrRef, resolved], options.mode)) continue
+                output += formatSchemaForDisplay(propSchema as SchemaOrRef, spec, visited, level + 1, key, childOptions)
             }
-            if (level === 0 && 'type' in schema && schema.type === 'object') {
+            if (level === 0 && hasSchemaType(schema, 'object')) {
                 output += `${indent}}\n`
             }
         }
 
+        // Tuple positions (prefixItems)
+        if (Array.isArray(schema.prefixItems)) {
+            schema.prefixItems.forEach((item, i) => {
+                if (isReferenceObject(item) || (item as SchemaObject).properties) {
+                    output += `${indent}  prefixItems[${i}]:\n`
+                    output += formatSchemaForDisplay(item, spec, visited, level + 2, undefined, childOptions)
+                }
+            })
+        }
+
         // Items (for arrays)
-        if ('items' in schema && schema.items && 'type' in schema && schema.type === 'array') {
+        if ('items' in schema && schema.items && typeof schema.items === 'object' && hasSchemaType(schema, 'array')) {
             if ('properties' in schema.items || '$ref' in schema.items) {
                 output += `${indent}  items:\n`
-                output += formatSchemaForDisplay(schema.items, spec, visited, level + 2)
+                output += formatSchemaForDisplay(schema.items as SchemaOrRef, spec, visited, level + 2, undefined, childOptions)
             }
         }
 
         // allOf, anyOf, oneOf
-        if ('allOf' in schema && schema.allOf) {
+        if (schema.allOf) {
             schema.allOf.forEach((s: any, i: number) => {
                 output += `${indent}  allOf[${i}]:\n`
-                output += formatSchemaForDisplay(s, spec, visited, level + 2)
+                output += formatSchemaForDisplay(s, spec, visited, level + 2, undefined, childOptions)
             })
         }
 
-        if ('anyOf' in schema && schema.anyOf) {
+        // Branches show their discriminator value; the selected root branch is marked active
+        const variants = getSchemaObjectVariants(schema)
+        const variantHeader = (kind: 'anyOf' | 'oneOf', i: number) => {
+            const variant = variants.find(v => v.kind === kind && v.index === i)
+            let header = `${indent}  ${kind}[${i}]`
+            if (variant?.discriminatorValue !== undefined) {
+                const discriminatorProperty = 'discriminator' in schema ? schema.discriminator?.propertyName : undefined
+                header += ` (${discriminatorProperty}: ${JSON.stringify(variant.discriminatorValue)})`
+            }
+            if (variant && level === 0 && options.activeVariant === i) {
+                header += ' ◀ active'
+            }
+            return `${header}:\n`
+        }
+
+        if (schema.anyOf) {
             schema.anyOf.forEach((s: any, i: number) => {
-                output += `${indent}  anyOf[${i}]:\n`
-                output += formatSchemaForDisplay(s, spec, visited, level + 2)
+                output += variantHeader('anyOf', i)
+                output += formatSchemaForDisplay(s, spec, visited, level + 2, undefined, childOptions)
             })
         }
 
-        if ('oneOf' in schema && schema.oneOf) {
+        if (schema.oneOf) {
             schema.oneOf.forEach((s: any, i: number) => {
-                output += `${indent}  oneOf[${i}]:\n`
-                output += formatSchemaForDisplay(s, spec, visited, level + 2)
+                output += variantHeader('oneOf', i)
+                output += formatSchemaForDisplay(s, spec, visited, level + 2, undefined, childOptions)
             })
         }
 
+        // Local definitions ($defs)
+        if (schema.$defs) {
+            for (const [name, defSchema] of Object.entries(schema.$defs)) {
+                output += `${indent}  $defs/${name}:\n`
+                output += formatSchemaForDisplay(defSchema, spec, visited, level + 2, undefined, childOptions)
+            }
+        }
+
         // Additional constraints
         if (propertyName) {
             const constraints: string[] = []
-            if ('pattern' in schema && schema.pattern) constraints.push(`pattern: ${schema.pattern}`)
-            if ('default' in schema && schema.default !== undefined) constraints.push(`default: ${JSON.stringify(schema.default)}`)
-            if ('minLength' in schema && schema.minLength !== undefined) constraints.push(`minLength: ${schema.minLength}`)
-            if ('maxLength' in schema && schema.maxLength !== undefined) constraints.push(`maxLength: ${schema.maxLength}`)
-            if ('minimum' in schema && schema.minimum !== undefined) constraints.push(`min: ${schema.minimum}`)
-            if ('maximum' in schema && schema.maximum !== undefined) constraints.push(`max: ${schema.maximum}`)
+            if (schema.pattern) constraints.push(`pattern: ${schema.pattern}`)
+            if (schema.default !== undefined) constraints.push(`default: ${JSON.stringify(schema.default)}`)
+            if (schema.minLength !== undefined) constraints.push(`minLength: ${schema.minLength}`)
+            if (schema.maxLength !== undefined) constraints.push(`maxLength: ${schema.maxLength}`)
+            if (schema.minimum !== undefined) constraints.push(`min: ${schema.minimum}`)
+            if (schema.maximum !== undefined) constraints.push(`max: ${schema.maximum}`)
+            // 3.1 uses numeric exclusive bounds; 3.0 uses booleans alongside minimum/maximum
+            if (typeof schema.exclusiveMinimum === 'number') constraints.push(`> ${schema.exclusiveMinimum}`)
+            if (typeof schema.exclusiveMaximum === 'number') constraints.push(`< ${schema.exclusiveMaximum}`)
+            if (schema.contentEncoding) constraints.push(`encoding: ${schema.contentEncoding}`)
+            if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+                constraints.push(`examples: ${schema.examples.map(e => JSON.stringify(e)).join(', ')}`)
+            }
             if (constraints.length > 0) {
                 output += `${indent}    (${constraints.join(', ')})\n`
             }
@@ -357,18 +449,18 @@ export const useOpenApiStore = defineStore('openapi', () => {
         return output
     }
 
-    function collectSchemaReferences(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined, spec: OpenAPIV3.Document, refs: Map<string, { name: string; schema: OpenAPIV3.SchemaObject }>, visited = new Set<string>()): void {
+    function collectSchemaReferences(schema: SchemaOrRef | undefined, spec: OpenApiDocument, refs: Map<string, { name: string; schema: SchemaObject }>, visited = new Set<string>()): void {
         if (!schema || typeof schema !== 'object') return
 
         // Handle references
-        if ('$ref' in schema && schema.$ref) {
+        if (isReferenceObject(schema)) {
             // Prevent circular references
             if (visited.has(schema.$ref)) {
                 return
             }
             visited.add(schema.$ref)
 
-            const refValue = resolveReference<OpenAPIV3.SchemaObject>(schema.$ref, spec)
+            const refValue = resolveReference<SchemaObject>(schema.$ref, spec)
             if (!refValue || typeof refValue !== 'object') {
                 visited.delete(schema.$ref)
                 return
@@ -386,41 +478,74 @@ export const useOpenApiStore = defineStore('openapi', () => {
         }
 
         // Recursively check properties
-        if ('properties' in schema && schema.properties) {
+        if (schema.properties) {
             for (const propSchema of Object.values(schema.properties)) {
-                collectSchemaReferences(propSchema, spec, refs, visited)
+                collectSchemaReferences(propSchema as SchemaOrRef, spec, refs, visited)
             }
         }
 
-        // Check items for arrays
-        if ('items' in schema && schema.items) {
-            collectSchemaReferences(schema.items, spec, refs, visited)
+        // Check items and tuple positions for arrays
+        if ('items' in schema && schema.items && typeof schema.items === 'object') {
+            collectSchemaReferences(schema.items as SchemaOrRef, spec, refs, visited)
+        }
+        if (Array.isArray(schema.prefixItems)) {
+            schema.prefixItems.forEach(s => collectSchemaReferences(s, spec, refs, visited))
+        }
+
+        // Check additionalProperties and not
+        if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+            collectSchemaReferences(schema.additionalProperties as SchemaOrRef, spec, refs, visited)
+        }
+        if (schema.not) {
+            collectSchemaReferences(schema.not as SchemaOrRef, spec, refs, visited)
         }
 
         // Check allOf, anyOf, oneOf
-        if ('allOf' in schema && schema.allOf) {
-            schema.allOf.forEach(s => collectSchemaReferences(s, spec, refs, visited))
+        if (schema.allOf) {
+            schema.allOf.forEach(s => collectSchemaReferences(s as SchemaOrRef, spec, refs, visited))
+        }
+        if (schema.anyOf) {
+            schema.anyOf.forEach(s => collectSchemaReferences(s as SchemaOrRef, spec, refs, visited))
         }
-        if ('anyOf' in schema && schema.anyOf) {
-            schema.anyOf.forEach(s => collectSchemaReferences(s, spec, refs, visited))
+        if (schema.oneOf) {
+            schema.oneOf.forEach(s => collectSchemaReferences(s as SchemaOrRef, spec, refs, visited))
         }
-        if ('oneOf' in schema && schema.oneOf) {
-            schema.oneOf.forEach(s => collectSchemaReferences(s, spec, refs, visited))
+
+        // Check local definitions ($defs) and encoded content schemas
+        if (schema.$defs) {
+            Object.values(schema.$defs).forEach(s => collectSchemaReferences(s, spec, refs, visited))
+        }
+        if (schema.contentSchema) {
+            collectSchemaReferences(schema.contentSchema, spec, refs, visited)
         }
     }
 
     // Helper methods that work with the spec
+    function resolvePathItem(item: OpenAPIV3.PathItemObject | OpenAPIV3.ReferenceObject | undefined): OpenAPIV3.PathItemObject | null {
+        if (!item || typeof item !== 'object') return null
+        if (isReferenceObject(item)) {
+            if (!openApiSpec.value) return null
+            return resolveReference<OpenAPIV3.PathItemObject>(item.$ref, openApiSpec.value)
+        }
+        return item
+    }
+
     function getSelectedEndpoint(path: string | null, method: string | null): OpenAPIV3.OperationObject | null {
         if (!openApiSpec.value || !path || !method) {
             return null
         }
-        const pathItem = openApiSpec.value.paths[path]
+        const pathItem = resolvePathItem(openApiSpec.value.paths?.[path] ?? openApiSpec.value.webhooks?.[path])
         if (!pathItem) return null
         const methodKey = method.toLowerCase() as keyof typeof pathItem
         return (pathItem[methodKey] as OpenAPIV3.OperationObject) || null
     }
 
-    function getRequestBodySchema(operation: OpenAPIV3.OperationObject | null): OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | null {
+    function isWebhookEndpoint(path: string | null): boolean {
+        if (!openApiSpec.value || !path) return false
+        return !openApiSpec.value.paths?.[path] && !!openApiSpec.value.webhooks?.[path]
+    }
+
+    function resolveRequestBody(operation: OpenAPIV3.OperationObject | null): OpenAPIV3.RequestBodyObject | null {
         if (!operation || !openApiSpec.value) return null
 
         let requestBody: OpenAPIV3.RequestBodyObject | OpenAPIV3.ReferenceObject | undefined = operation.requestBody
@@ -435,12 +560,100 @@ export const useOpenApiStore = defineStore('openapi', () => {
 
         // Get content
         if (!requestBody || !('content' in requestBody) || !requestBody.content) return null
+        return requestBody
+    }
 
-        // Try to get JSON schema
-        const jsonContent = requestBody.content['application/json']
-        if (!jsonContent || !jsonContent.schema) return null
+    /**
+     * Media types the operation accepts for its request body, in spec order
+     */
+    function getRequestBodyContentTypes(operation: OpenAPIV3.OperationObject | null): string[] {
+        return Object.keys(resolveRequestBody(operation)?.content ?? {})
+    }
+
+    function isRequestBodyRequired(operation: OpenAPIV3.OperationObject | null): boolean {
+        return resolveRequestBody(operation)?.required === true
+    }
+
+    /**
+     * Default request body media type: application/json, then any +json type, then the first declared type
+     */
+    function getPreferredRequestBodyContentType(operation: OpenAPIV3.OperationObject | null): string | null {
+        const types = getRequestBodyContentTypes(operation)
+        return types.find(type => type === 'application/json')
+            ?? types.find(type => /\+json$/.test(type))
+            ?? types[0]
+            ?? null
+    }
+
+    /**
+     * Returns the request body's media type object for `contentType`, or for the preferred type without one
+     */
+    function getRequestBodyMediaType(operation: OpenAPIV3.OperationObject | null, contentType?: string | null): OpenAPIV3.MediaTypeObject | null {
+        const content = resolveRequestBody(operation)?.content
+        if (!content) return null
+
+        const type = contentType || getPreferredRequestBodyContentType(operation)
+        return type ? content[type] ?? null : null
+    }
+
+    function getRequestBodySchema(operation: OpenAPIV3.OperationObject | null, contentType?: string | null): SchemaOrRef | null {
+        return getRequestBodyMediaType(operation, contentType)?.schema ?? null
+    }
 
-        return jsonContent.schema
+    /**
+     * Lists the named examples of a media type or parameter `examples` map, resolving $refs
+     */
+    function getNamedExamples(examples: ExamplesMap | undefined): NamedExample[] {
+        if (!examples || typeof examples !== 'object' || !openApiSpec.value) return []
+
+        const result: NamedExample[] = []
+        for (const [name, entry] of Object.entries(examples)) {
+            const example = isReferenceObject(entry)
+                ? resolveReference<OpenAPIV3.ExampleObject>(entry.$ref, openApiSpec.value)
+                : entry
+            if (!example || typeof example !== 'object') continue
+            result.push({
+                name,
+                summary: example.summary,
+                description: example.description,
+                value: example.value,
+                externalValue: example.externalValue,
+            })
+        }
+        return result
+    }
+
+    function getRequestBodyExamples(operation: OpenAPIV3.OperationObject | null, contentType?: string | null): NamedExample[] {
+        return getNamedExamples(getRequestBodyMediaType(operation, contentType)?.examples)
+    }
+
+    /**
+     * Returns the payload of a named example, fetching `externalValue` relative to the spec URL.
+     * JSON payloads are parsed; anything else is returned as text.
+     */
+    async function loadNamedExampleValue(example: NamedExample): Promise<any> {
+        if (example.value !== undefined || !example.externalValue) return example.value
+
+        const url = new URL(example.externalValue, specBaseUrl.value ?? undefined).href
+        let pending = externalExampleValues.get(url)
+        if (!pending) {
+            pending = (async () => {
+                const response = await fetch(url)
+                if (!response.ok) {
+                    throw new Error(`Failed to fetch example ${url}: ${response.status} ${response.statusText}`)
+                }
+                const text = await response.text()
+                try {
+                    return JSON.parse(text)
+                } catch {
+                    return text
+                }
+            })()
+            // Failed fetches are retried next time
+            pending.catch(() => externalExampleValues.delete(url))
+            externalExampleValues.set(url, pending)
+        }
+        return pending
     }
 
     function getExampleFromRequestBody(operation: OpenAPIV3.OperationObject | null): any {
@@ -449,7 +662,7 @@ export const useOpenApiStore = defineStore('openapi', () => {
         const schema = getRequestBodySchema(operation)
         if (!schema) return null
 
-        return generateExampleFromSchema(schema, openApiSpec.value)
+        return generateExampleFromSchema(schema, openApiSpec.value, { mode: 'request' })
     }
 
     function getExampleFromResponse(operation: OpenAPIV3.OperationObject | null, preferSuccess = true): any {
@@ -495,14 +708,31 @@ export const useOpenApiStore = defineStore('openapi', () => {
         const jsonContent = response.content['application/json']
         if (!jsonContent || !jsonContent.schema) return null
 
-        return generateExampleFromSchema(jsonContent.schema, openApiSpec.value)
+        return generateExampleFromSchema(jsonContent.schema, openApiSpec.value, { mode: 'response' })
+    }
+
+    /**
+     * Checks a received response against the operation's documented responses and their schemas
+     */
+    function checkResponseContract(operation: OpenAPIV3.OperationObject | null, status: number, contentType: string | null, body: string | Blob): ContractCheckResult | null {
+        const spec = openApiSpec.value
+        if (!operation || !spec) return null
+        return checkContract(
+            operation.responses,
+            status,
+            contentType,
+            body,
+            response => isReferenceObject(response) ? resolveReference<OpenAPIV3.ResponseObject>(response.$ref, spec) : response,
+            (schema, value) => validateValue(schema, value, { mode: 'response' }),
+        )
     }
 
     function getAllResponseExamples(operation: OpenAPIV3.OperationObject | null): Array<{
         code: string
         description: string
         example: any
-        schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined
+        schema: SchemaOrRef | undefined
+        namedExamples: NamedExample[]
         isSuccess: boolean
     }> {
         if (!operation || !openApiSpec.value) return []
@@ -514,7 +744,8 @@ export const useOpenApiStore = defineStore('openapi', () => {
             code: string
             description: string
             example: any
-            schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined
+            schema: SchemaOrRef | undefined
+            namedExamples: NamedExample[]
             isSuccess: boolean
         }> = []
 
@@ -534,13 +765,15 @@ export const useOpenApiStore = defineStore('openapi', () => {
 
             // Get example and schema from content
             let example: any = null
-            let schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject | undefined = undefined
+            let schema: SchemaOrRef | undefined = undefined
+            let namedExamples: NamedExample[] = []
             if ('content' in responseObj && responseObj.content) {
                 const jsonContent = responseObj.content['application/json']
                 if (jsonContent && jsonContent.schema) {
                     schema = jsonContent.schema
-                    example = generateExampleFromSchema(jsonContent.schema, openApiSpec.value)
+                    example = generateExampleFromSchema(jsonContent.schema, openApiSpec.value, { mode: 'response' })
                 }
+                namedExamples = getNamedExamples(jsonContent?.examples)
             }
 
             const statusCode = parseInt(code)
@@ -551,6 +784,7 @@ export const useOpenApiStore = defineStore('openapi', () => {
                 description,
                 example,
                 schema,
+                namedExamples,
                 isSuccess,
             })
         }
@@ -569,10 +803,10 @@ export const useOpenApiStore = defineStore('openapi', () => {
         })
     }
 
-    function getEndpointSchemaReferences(operation: OpenAPIV3.OperationObject | null): Array<{ name: string; schema: OpenAPIV3.SchemaObject }> {
+    function getEndpointSchemaReferences(operation: OpenAPIV3.OperationObject | null): Array<{ name: string; schema: SchemaObject }> {
         if (!operation || !openApiSpec.value) return []
 
-        const refs = new Map<string, { name: string; schema: OpenAPIV3.SchemaObject }>()
+        const refs = new Map<string, { name: string; schema: SchemaObject }>()
 
         // Collect from request body
         const requestBodySchema = getRequestBodySchema(operation)
@@ -722,8 +956,13 @@ export const useOpenApiStore = defineStore('openapi', () => {
     return {
         // State
         openApiSpec,
+        externalDocuments,
+        specWarnings,
+        sourceSpecVersion,
+        specBaseUrl,
         loading,
         error,
+        exampleValueGenerators,
         // Computed
         openApiSpecUrl,
         endpoints,
@@ -731,16 +970,31 @@ export const useOpenApiStore = defineStore('openapi', () => {
         openApiTitle,
         openApiDescription,
         openApiVersion,
+        isConvertedFromSwagger2,
         // Actions
         loadSpec,
+        registerExampleValueGenerator,
+        unregisterExampleValueGenerator,
         // Utility functions
         resolveReference,
         resolveParameter,
+        generateExample,
         generateExampleFromSchema,
+        validateValue,
+        checkResponseContract,
+        getSchemaVariants,
         formatSchemaForDisplay,
         // Helper methods
         getSelectedEndpoint,
+        isWebhookEndpoint,
+        getRequestBodyContentTypes,
+        getPreferredRequestBodyContentType,
+        isRequestBodyRequired,
+        getRequestBodyMediaType,
         getRequestBodySchema,
+        getNamedExamples,
+        getRequestBodyExamples,
+        loadNamedExampleValue,
         getExampleFromRequestBody,
         getExampleFromResponse,
         getAllResponseExamples,
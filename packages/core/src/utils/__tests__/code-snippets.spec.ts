@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { generateSnippet, SNIPPET_LANGUAGES, type SnippetRequest } from '@/utils/code-snippets'
+import { parseCurlCommand, tokenizeShellCommand } from '@/utils/curl-import'
+
+// Values that break naive quoting in at least one target language
+const TRICKY_VALUES = [
+    `it's`,
+    'say "hi"',
+    'back\\slash',
+    'line\nbreak',
+    '$HOME and `cmd`',
+    'typographic ‘quotes’',
+    '{{not a variable}}',
+]
+
+function request(overrides: Partial<SnippetRequest> = {}): SnippetRequest {
+    return {
+        method: 'POST',
+        url: 'https://api.test/items?q=1&r=2',
+        headers: { 'X-Token': 'abc' },
+        requestContentType: 'application/json',
+        requestBody: { name: 'a' },
+        ...overrides,
+    }
+}
+
+describe('generateSnippet', () => {
+    it.each(TRICKY_VALUES)('curl snippets round-trip %j through the shell', value => {
+        const snippet = generateSnippet(request({
+            headers: { 'X-Value': value },
+            requestContentType: 'text/plain',
+            requestBody: value,
+        }), 'curl')
+        const parsed = parseCurlCommand(snippet)
+        expect(parsed.headers).toEqual([['X-Value', value]])
+        expect(parsed.body).toBe(value)
+        expect(parsed.url).toBe('https://api.test/items?q=1&r=2')
+    })
+
+    it.each(TRICKY_VALUES)('HTTPie snippets round-trip %j through the shell', value => {
+        const snippet = generateSnippet(request({ requestContentType: 'text/plain', requestBody: value }), 'httpie')
+        expect(tokenizeShellCommand(snippet)).toContain(value)
+    })
+
+    it.each<[string, string, string]>([
+        ['plain', 'abc', `'abc'`],
+        ['single quote', `it's`, `'it''s'`],
+        ['typographic quotes', 'a‘b’c', `'a‘‘b’’c'`],
+    ])('PowerShell doubles %s', (_name, value, expected) => {
+        const snippet = generateSnippet(request({ headers: { 'X-Value': value } }), 'powershell')
+        expect(snippet).toContain(`'X-Value' = ${expected}`)
+    })
+
+    it.each(TRICKY_VALUES)('JavaScript snippets embed %j as a valid string literal', value => {
+        const snippet = generateSnippet(request({ requestContentType: 'text/plain', requestBody: value }), 'fetch')
+        expect(snippet).toContain(`body: ${JSON.stringify(value)},`)
+    })
+
+    it.each<[string, string, string]>([
+        ['raw string', 'a "b"', 'strings.NewReader(`a "b"`)'],
+        ['backtick needs a quoted string', 'a `b`', 'strings.NewReader("a `b`")'],
+        ['carriage return needs a quoted string', 'a\r\nb', 'strings.NewReader("a\\r\\nb")'],
+    ])('Go uses a %s', (_name, value, expected) => {
+        const snippet = generateSnippet(request({ requestContentType: 'text/plain', requestBody: value }), 'go')
+        expect(snippet).toContain(expected)
+    })
+
+    it.each(SNIPPET_LANGUAGES.map(language => language.id))('%s leaves out the body of a GET request', language => {
+        const snippet = generateSnippet(request({ method: 'GET', requestBody: { secret: 'body-value' } }), language)
+        expect(snippet).not.toContain('body-value')
+        expect(snippet).toContain('https://api.test/items?q=1&r=2')
+    })
+})
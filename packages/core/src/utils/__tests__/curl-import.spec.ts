@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { matchEndpointPath, parseCurlCommand, tokenizeShellCommand, type ParsedCurlCommand } from '@/utils/curl-import'
+
+describe('tokenizeShellCommand', () => {
+    it.each<[string, string, string[]]>([
+        ['plain words', 'curl  -s https://a.test', ['curl', '-s', 'https://a.test']],
+        ['single quotes', `curl 'a b' '"x"'`, ['curl', 'a b', '"x"']],
+        ['double quotes', 'curl "a \\"b\\" \\$c \\n"', ['curl', 'a "b" $c \\n']],
+        ['ANSI-C quotes', "curl $'a\\nb\\'c\\x41\\u00e9'", ['curl', "a\nb'cAé"]],
+        ['escaped space', 'curl a\\ b', ['curl', 'a b']],
+        ['line continuation', 'curl \\\n  -s \\\r\n  url', ['curl', '-s', 'url']],
+        ['empty quoted word', "curl ''", ['curl', '']],
+        ['adjacent quoting', `curl a'b'"c"`, ['curl', 'abc']],
+    ])('%s', (_name, input, expected) => {
+        expect(tokenizeShellCommand(input)).toEqual(expected)
+    })
+
+    it.each([
+        ['curl \'a', 'Unterminated single quote'],
+        ['curl "a', 'Unterminated double quote'],
+        ["curl $'a", "Unterminated $'…' quote"],
+    ])('rejects %s', (input, message) => {
+        expect(() => tokenizeShellCommand(input)).toThrow(message)
+    })
+})
+
+describe('parseCurlCommand', () => {
+    it.each<[string, string, Partial<ParsedCurlCommand>]>([
+        ['GET by default', 'curl https://a.test/pets', { method: 'GET', url: 'https://a.test/pets', body: null }],
+        ['POST with data', "curl https://a.test -d 'a=1' --data-raw 'b=2'", { method: 'POST', body: 'a=1&b=2' }],
+        ['explicit method', 'curl -XPUT https://a.test', { method: 'PUT' }],
+        ['headers keep their case', "curl -H 'X-Id: 1' -H'Accept:*/*' https://a.test", { headers: [['X-Id', '1'], ['Accept', '*/*']] }],
+        ['cookie, agent and referer', 'curl -b a=1 -A agent -e https://r.test https://a.test', {
+            headers: [['Cookie', 'a=1'], ['User-Agent', 'agent'], ['Referer', 'https://r.test']],
+        }],
+        ['basic auth', 'curl -u user:pa:ss https://a.test', { user: { username: 'user', password: 'pa:ss' } }],
+        ['user without password', 'curl -u user https://a.test', { user: { username: 'user', password: '' } }],
+        ['-G moves data into the query', 'curl -G https://a.test?x=1 -d y=2', { method: 'GET', url: 'https://a.test?x=1&y=2', body: null }],
+        ['--data-urlencode', "curl https://a.test --data-urlencode 'q=a b&c'", { body: 'q=a%20b%26c' }],
+        ['HEAD', 'curl -I https://a.test', { method: 'HEAD' }],
+        ['--url and skipped options', 'curl -o out.json --max-time 5 --url https://a.test -sL', { url: 'https://a.test' }],
+        ['--compressed', 'curl --compressed https://a.test', { compressed: true }],
+        ['body files are warned about', 'curl https://a.test -d @body.json', {
+            body: null,
+            warnings: ["Can't read the body from file body.json; add it in the body editor"],
+        }],
+        ['--data-raw keeps a leading @', "curl https://a.test --data-raw '@me'", { body: '@me' }],
+        ['multipart fields are warned about', 'curl https://a.test -F a=1', {
+            warnings: ["Multipart -F fields aren't imported; add them in the body editor"],
+        }],
+        ['malformed header', "curl -H 'nope' https://a.test", { headers: [], warnings: ['Ignored malformed header "nope"'] }],
+    ])('%s', (_name, input, expected) => {
+        expect(parseCurlCommand(input)).toMatchObject(expected)
+    })
+
+    it.each([
+        ['wget https://a.test', 'Not a curl command: it should start with "curl"'],
+        ['curl -s', 'No URL found in the curl command'],
+        ['curl https://a.test -H', 'Missing value for -H'],
+    ])('rejects %s', (input, message) => {
+        expect(() => parseCurlCommand(input)).toThrow(message)
+    })
+})
+
+describe('matchEndpointPath', () => {
+    const endpoints = [
+        { method: 'get', path: '/pets/{petId}' },
+        { method: 'get', path: '/pets/mine' },
+        { method: 'get', path: '/pets/{petId}/toys/{toyId}' },
+        { method: 'post', path: '/pets' },
+        { method: 'get', path: '/' },
+    ]
+
+    it.each<[string, string, string, string | null, Record<string, string>]>([
+        ['templated path', 'GET', '/pets/42', '/pets/{petId}', { petId: '42' }],
+        ['literal path wins', 'GET', '/pets/mine', '/pets/mine', {}],
+        ['several parameters', 'GET', '/pets/1/toys/a%20b', '/pets/{petId}/toys/{toyId}', { petId: '1', toyId: 'a%20b' }],
+        ['method must match', 'GET', '/pets', null, {}],
+        ['trailing slash', 'POST', '/pets/', '/pets', {}],
+        ['root', 'GET', '/', '/', {}],
+        ['no match', 'GET', '/owners/1', null, {}],
+    ])('%s', (_name, method, path, expectedPath, pathParams) => {
+        const match = matchEndpointPath(endpoints, method, path)
+        expect(match?.endpoint.path ?? null).toBe(expectedPath)
+        if (match) expect(match.pathParams).toEqual(pathParams)
+    })
+})
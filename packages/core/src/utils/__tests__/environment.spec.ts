@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createVariableResolver, getEnvironmentValues, getSecretValues, maskSecrets } from '@/utils/environment'
+import type { Environment } from '@/utils/types'
+
+const environment: Environment = {
+    id: 'dev',
+    name: 'Dev',
+    variables: [
+        { name: ' host ', value: 'api.test', enabled: true, secret: false },
+        { name: 'token', value: 'secret-token', enabled: true, secret: true },
+        { name: 'short', value: 'secret', enabled: true, secret: true },
+        { name: 'off', value: 'unused', enabled: false, secret: false },
+        { name: 'empty', value: '', enabled: true, secret: true },
+    ],
+}
+
+describe('getEnvironmentValues', () => {
+    it('keeps enabled variables under their trimmed names', () => {
+        expect(getEnvironmentValues(environment)).toEqual({ host: 'api.test', token: 'secret-token', short: 'secret', empty: '' })
+        expect(getEnvironmentValues(null)).toEqual({})
+    })
+})
+
+describe('createVariableResolver', () => {
+    it.each<[string, string, string, string[], string[]]>([
+        ['variable', 'https://{{host}}/a', 'https://api.test/a', ['host'], []],
+        ['whitespace inside braces', '{{ host }}', 'api.test', ['host'], []],
+        ['missing variable is kept', '{{nope}}', '{{nope}}', [], ['nope']],
+        ['values are not resolved again', '{{loop}}', '{{host}}', ['loop'], []],
+        ['inherited names are not variables', '{{toString}}', '{{toString}}', [], ['toString']],
+    ])('%s', (_name, text, expected, used, missing) => {
+        const resolver = createVariableResolver({ host: 'api.test', loop: '{{host}}' })
+        expect(resolver.resolve(text)).toBe(expected)
+        expect([...resolver.used]).toEqual(used)
+        expect([...resolver.missing]).toEqual(missing)
+    })
+
+    it('resolves strings nested in arrays and objects', () => {
+        const resolver = createVariableResolver({ id: '7' })
+        expect(resolver.resolveValue({ a: ['{{id}}'], b: { c: '{{id}}' }, d: 1 })).toEqual({ a: ['7'], b: { c: '7' }, d: 1 })
+    })
+})
+
+describe('maskSecrets', () => {
+    const secrets = getSecretValues(environment)
+
+    it('orders secrets longest first and skips empty ones', () => {
+        expect(secrets).toEqual(['secret-token', 'secret'])
+    })
+
+    it.each<[string, unknown, unknown]>([
+        ['text', 'Bearer secret-token', 'Bearer ••••••'],
+        ['overlapping secrets are masked whole', 'secret-token secret', '•••••• ••••••'],
+        ['arrays and objects', { a: ['secret'], b: { c: 'x secret' } }, { a: ['••••••'], b: { c: 'x ••••••' } }],
+        ['non-strings are left alone', 42, 42],
+    ])('%s', (_name, value, expected) => {
+        expect(maskSecrets(value, secrets)).toEqual(expected)
+    })
+})
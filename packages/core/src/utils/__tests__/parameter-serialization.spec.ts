@@ -0,0 +1,110 @@
+import type { OpenAPIV3 } from 'openapi-types'
+import { describe, expect, it } from 'vitest'
+import {
+    parseHeaderParameter,
+    parsePathParameter,
+    parseQueryParameter,
+    serializeHeaderParameter,
+    serializePathParameter,
+    serializeQueryParameter,
+    type ParameterValue,
+} from '@/utils/parameter-serialization'
+import type { SchemaObject } from '@/utils/schema'
+
+type Param = Pick<OpenAPIV3.ParameterObject, 'name' | 'in' | 'style' | 'explode' | 'allowReserved'>
+
+const ARRAY: SchemaObject = { type: 'array', items: { type: 'string' } }
+const OBJECT: SchemaObject = { type: 'object', properties: { role: { type: 'string' }, name: { type: 'string' } } }
+const STRING: SchemaObject = { type: 'string' }
+
+describe('serializeQueryParameter', () => {
+    it.each<[string, Partial<Param>, unknown, string[]]>([
+        ['primitive', {}, 'a b', ['id=a%20b']],
+        ['form exploded array', {}, ['3', '4'], ['id=3', 'id=4']],
+        ['form array', { explode: false }, ['3', '4'], ['id=3,4']],
+        ['spaceDelimited array', { style: 'spaceDelimited', explode: false }, ['3', '4'], ['id=3%204']],
+        ['pipeDelimited array', { style: 'pipeDelimited', explode: false }, ['3', '4'], ['id=3|4']],
+        ['form exploded object', {}, { role: 'admin', name: 'a' }, ['role=admin', 'name=a']],
+        ['form object', { explode: false }, { role: 'admin', name: 'a' }, ['id=role,admin,name,a']],
+        ['deepObject', { style: 'deepObject' }, { role: 'admin' }, ['id%5Brole%5D=admin']],
+        ['reserved characters encoded', {}, 'a/b?c', ['id=a%2Fb%3Fc']],
+        ['allowReserved', { allowReserved: true }, 'a/b?c', ['id=a/b?c']],
+    ])('%s', (_name, param, value, expected) => {
+        expect(serializeQueryParameter({ name: 'id', in: 'query', ...param }, value)).toEqual(expected)
+    })
+})
+
+describe('serializePathParameter', () => {
+    it.each<[string, Partial<Param>, unknown, string]>([
+        ['simple primitive', {}, 'a/b', 'a%2Fb'],
+        ['simple array', {}, ['3', '4'], '3,4'],
+        ['simple object', {}, { role: 'admin', name: 'a' }, 'role,admin,name,a'],
+        ['simple exploded object', { explode: true }, { role: 'admin', name: 'a' }, 'role=admin,name=a'],
+        ['label primitive', { style: 'label' }, '5', '.5'],
+        ['label exploded array', { style: 'label', explode: true }, ['3', '4'], '.3.4'],
+        ['matrix primitive', { style: 'matrix' }, '5', ';id=5'],
+        ['matrix array', { style: 'matrix' }, ['3', '4'], ';id=3,4'],
+        ['matrix exploded array', { style: 'matrix', explode: true }, ['3', '4'], ';id=3;id=4'],
+        ['matrix exploded object', { style: 'matrix', explode: true }, { role: 'admin' }, ';role=admin'],
+    ])('%s', (_name, param, value, expected) => {
+        expect(serializePathParameter({ name: 'id', in: 'path', ...param }, value)).toBe(expected)
+    })
+})
+
+describe('serializeHeaderParameter', () => {
+    it.each<[string, Partial<Param>, unknown, string]>([
+        ['primitive', {}, 'a b', 'a b'],
+        ['array', {}, ['3', '4'], '3,4'],
+        ['object', {}, { role: 'admin', name: 'a' }, 'role,admin,name,a'],
+        ['exploded object', { explode: true }, { role: 'admin', name: 'a' }, 'role=admin,name=a'],
+    ])('%s', (_name, param, value, expected) => {
+        expect(serializeHeaderParameter({ name: 'X-Id', in: 'header', ...param }, value)).toBe(expected)
+    })
+})
+
+describe('parseQueryParameter', () => {
+    it.each<[string, Partial<Param>, string, SchemaObject, ParameterValue | null]>([
+        ['missing', {}, 'other=1', STRING, null],
+        ['primitive', {}, 'id=a+b', STRING, 'a b'],
+        ['form exploded array', {}, 'id=3&id=4', ARRAY, ['3', '4']],
+        ['form array', { explode: false }, 'id=3,4', ARRAY, ['3', '4']],
+        ['spaceDelimited array', { style: 'spaceDelimited', explode: false }, 'id=3%204', ARRAY, ['3', '4']],
+        ['pipeDelimited array', { style: 'pipeDelimited', explode: false }, 'id=3|4', ARRAY, ['3', '4']],
+        ['form exploded object', {}, 'role=admin&other=1', OBJECT, { role: 'admin' }],
+        ['form object', { explode: false }, 'id=role,admin', OBJECT, { role: 'admin' }],
+        ['deepObject', { style: 'deepObject' }, 'id%5Brole%5D=admin', OBJECT, { role: 'admin' }],
+    ])('%s', (_name, param, query, schema, expected) => {
+        expect(parseQueryParameter({ name: 'id', in: 'query', ...param }, new URLSearchParams(query), schema)).toEqual(expected)
+    })
+})
+
+describe('parsePathParameter', () => {
+    it.each<[string, Partial<Param>, string, SchemaObject, ParameterValue]>([
+        ['simple primitive', {}, 'a%2Fb', STRING, 'a/b'],
+        ['simple array', {}, '3,4', ARRAY, ['3', '4']],
+        ['simple object', {}, 'role,admin', OBJECT, { role: 'admin' }],
+        ['simple exploded object', { explode: true }, 'role=admin', OBJECT, { role: 'admin' }],
+        ['label primitive', { style: 'label' }, '.5', STRING, '5'],
+        ['label exploded array', { style: 'label', explode: true }, '.3.4', ARRAY, ['3', '4']],
+        ['matrix primitive', { style: 'matrix' }, ';id=5', STRING, '5'],
+        ['matrix array', { style: 'matrix' }, ';id=3,4', ARRAY, ['3', '4']],
+        ['matrix exploded array', { style: 'matrix', explode: true }, ';id=3;id=4', ARRAY, ['3', '4']],
+        ['matrix exploded object', { style: 'matrix', explode: true }, ';role=admin', OBJECT, { role: 'admin' }],
+        ['malformed escape kept as-is', {}, '100%', STRING, '100%'],
+        ['plus stays a plus', {}, 'a+b', STRING, 'a+b'],
+        ['encoded space', {}, 'a%20b', STRING, 'a b'],
+        ['plus in matrix values', { style: 'matrix', explode: true }, ';id=a+b;id=c', ARRAY, ['a+b', 'c']],
+    ])('%s', (_name, param, segment, schema, expected) => {
+        expect(parsePathParameter({ name: 'id', in: 'path', ...param }, segment, schema)).toEqual(expected)
+    })
+})
+
+describe('parseHeaderParameter', () => {
+    it.each<[string, Partial<Param>, string, SchemaObject, ParameterValue]>([
+        ['primitive', {}, 'a,b', STRING, 'a,b'],
+        ['array', {}, '3,4', ARRAY, ['3', '4']],
+        ['exploded object', { explode: true }, 'role=admin,name=a', OBJECT, { role: 'admin', name: 'a' }],
+    ])('%s', (_name, param, value, schema, expected) => {
+        expect(parseHeaderParameter({ name: 'X-Id', in: 'header', ...param }, value, schema)).toEqual(expected)
+    })
+})
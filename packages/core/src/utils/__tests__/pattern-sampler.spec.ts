@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { sampleFromPattern } from '@/utils/pattern-sampler'
+
+// Deterministic stand-in for Math.random
+function seededRandom(seed = 1): () => number {
+    let state = seed
+    return () => {
+        state = (state * 16807) % 2147483647
+        return (state - 1) / 2147483646
+    }
+}
+
+describe('sampleFromPattern', () => {
+    it.each([
+        '^[a-z]{3}-\\d{4}$',
+        '^(foo|bar)+$',
+        '^[A-Z][a-z]*\\s\\w+$',
+        '^(?:\\+\\d{1,3})?[0-9]{6,10}$',
+        '^[^aeiou]{5}$',
+        '^\\d{3,}\\.\\d?$',
+    ])('samples %s', pattern => {
+        const random = seededRandom()
+        for (let i = 0; i < 20; i++) {
+            const sample = sampleFromPattern(pattern, random)
+            expect(sample).not.toBeNull()
+            expect(new RegExp(pattern).test(sample!)).toBe(true)
+        }
+    })
+
+    it.each([
+        '(?=a)b',
+        '(a)\\1',
+        '[a-',
+    ])('gives up on %s', pattern => {
+        expect(sampleFromPattern(pattern, seededRandom())).toBeNull()
+    })
+
+    it.each([
+        ['^a{0,100000}$', 64],
+        ['^a{2,100000}$', 64],
+        ['^a{100,100000}$', 100],
+    ])('caps the repetitions of %s at %i', (pattern, maxLength) => {
+        const random = seededRandom()
+        for (let i = 0; i < 20; i++) {
+            expect(sampleFromPattern(pattern, random)!.length).toBeLessThanOrEqual(maxLength)
+        }
+    })
+
+    it.each([
+        '^a{100000}$',
+        '^a{100000,}$',
+        '^(a{50}){50}$',
+    ])('gives up on %s rather than building a huge string', pattern => {
+        expect(sampleFromPattern(pattern, seededRandom())).toBeNull()
+    })
+})
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest'
+import { bundleDocument, getByJsonPointer, parseJsonPointer, resolveLocalReference, type FetchDocument } from '@/utils/ref-resolver'
+
+const ROOT_URL = 'https://specs.test/api/openapi.json'
+
+function fetchFrom(documents: Record<string, unknown>): FetchDocument {
+    return async url => {
+        if (!(url in documents)) throw new Error('404 Not Found')
+        return documents[url]
+    }
+}
+
+describe('parseJsonPointer', () => {
+    it.each<[string, string[]]>([
+        ['', []],
+        ['/', []],
+        ['/components/schemas/Pet', ['components', 'schemas', 'Pet']],
+        ['/paths/~1pets~1{id}/get', ['paths', '/pets/{id}', 'get']],
+        ['/a~0b', ['a~b']],
+        ['/a%20b', ['a b']],
+    ])('%j', (pointer, expected) => {
+        expect(parseJsonPointer(pointer)).toEqual(expected)
+    })
+})
+
+describe('resolveLocalReference', () => {
+    const document = {
+        a: { $ref: '#/b' },
+        b: { $ref: '#/c' },
+        c: { type: 'string' },
+        loop: { $ref: '#/loop' },
+        list: [{ name: 'first' }],
+    }
+
+    it.each<[string, unknown]>([
+        ['#/c', { type: 'string' }],
+        ['#/a', { type: 'string' }],
+        ['#/list/0/name', 'first'],
+        ['#/missing', null],
+        ['other.json#/c', null],
+    ])('%s', (ref, expected) => {
+        expect(resolveLocalReference(document, ref)).toEqual(expected)
+    })
+
+    it('returns null for a ref chain that loops', () => {
+        const warn = console.warn
+        console.warn = () => {}
+        try {
+            expect(resolveLocalReference(document, '#/loop')).toBeNull()
+        } finally {
+            console.warn = warn
+        }
+    })
+
+    it('reads values through arrays with getByJsonPointer', () => {
+        expect(getByJsonPointer(document, '/list/0')).toEqual({ name: 'first' })
+    })
+})
+
+describe('bundleDocument', () => {
+    it('copies external targets into the section matching where the ref appears', async () => {
+        const root = {
+            openapi: '3.1.0',
+            paths: {
+                '/pets': {
+                    get: {
+                        parameters: [{ $ref: 'common.json#/limit' }],
+                        responses: {
+                            200: { $ref: 'common.json#/PetsResponse' },
+                        },
+                    },
+                },
+                '/owners': { $ref: 'paths/owners.json' },
+            },
+            components: {
+                schemas: {
+                    Local: { $ref: '#/components/schemas/Other' },
+                },
+            },
+        }
+        const { document, externalDocuments, warnings } = await bundleDocument(root, ROOT_URL, fetchFrom({
+            'https://specs.test/api/common.json': {
+                limit: { name: 'limit', in: 'query', schema: { $ref: 'schemas/pet.json' } },
+                PetsResponse: { description: 'Pets', content: { 'application/json': { schema: { $ref: 'schemas/pet.json' } } } },
+            },
+            'https://specs.test/api/schemas/pet.json': { type: 'object' },
+            'https://specs.test/api/paths/owners.json': { get: { responses: {} } },
+        }))
+
+        expect(warnings).toEqual([])
+        expect(externalDocuments).toEqual([
+            'https://specs.test/api/common.json',
+            'https://specs.test/api/schemas/pet.json',
+            'https://specs.test/api/paths/owners.json',
+        ])
+        expect(document.paths['/pets'].get.parameters).toEqual([{ $ref: '#/components/parameters/limit' }])
+        expect(document.paths['/pets'].get.responses[200]).toEqual({ $ref: '#/components/responses/PetsResponse' })
+        expect(document.paths['/owners']).toEqual({ $ref: '#/components/pathItems/owners' })
+        expect(document.components).toMatchObject({
+            schemas: { Local: { $ref: '#/components/schemas/Other' }, pet: { type: 'object' } },
+            parameters: { limit: { schema: { $ref: '#/components/schemas/pet' } } },
+            responses: { PetsResponse: { content: { 'application/json': { schema: { $ref: '#/components/schemas/pet' } } } } },
+            pathItems: { owners: { get: { responses: {} } } },
+        })
+        // The input document is left untouched
+        expect(root.paths['/owners']).toEqual({ $ref: 'paths/owners.json' })
+    })
+
+    it('bundles refs that form a cycle across files once', async () => {
+        const root = { components: { schemas: { Tree: { $ref: 'tree.json' } } } }
+        const { document } = await bundleDocument(root, ROOT_URL, fetchFrom({
+            'https://specs.test/api/tree.json': { type: 'object', properties: { children: { items: { $ref: 'tree.json' } } } },
+        }))
+        expect(document.components.schemas).toEqual({
+            Tree: { $ref: '#/components/schemas/tree' },
+            tree: { type: 'object', properties: { children: { items: { $ref: '#/components/schemas/tree' } } } },
+        })
+    })
+
+    it('rewrites refs back into the root document as local refs', async () => {
+        const root: { components: { schemas: Record<string, object> } } = {
+            components: { schemas: { A: { $ref: 'a.json' }, B: { type: 'string' } } },
+        }
+        const { document } = await bundleDocument(root, ROOT_URL, fetchFrom({
+            'https://specs.test/api/a.json': { $ref: 'openapi.json#/components/schemas/B' },
+        }))
+        expect(document.components.schemas.a).toEqual({ $ref: '#/components/schemas/B' })
+    })
+
+    it('keeps unresolvable refs and reports them', async () => {
+        const root = { components: { schemas: { A: { $ref: 'missing.json' }, B: { $ref: 'a.json#/nope' } } } }
+        const { document, warnings } = await bundleDocument(root, ROOT_URL, fetchFrom({ 'https://specs.test/api/a.json': {} }))
+        expect(document.components.schemas).toEqual({ A: { $ref: 'missing.json' }, B: { $ref: 'a.json#/nope' } })
+        expect(warnings).toEqual([
+            'Failed to load https://specs.test/api/missing.json (404 Not Found)',
+            `Unresolved $ref "a.json#/nope" in ${ROOT_URL}`,
+        ])
+    })
+
+    it('gives components with the same name distinct names', async () => {
+        const root = { components: { schemas: { A: { $ref: 'a.json#/Pet' }, B: { $ref: 'b.json#/Pet' } } } }
+        const { document } = await bundleDocument(root, ROOT_URL, fetchFrom({
+            'https://specs.test/api/a.json': { Pet: { title: 'a' } },
+            'https://specs.test/api/b.json': { Pet: { title: 'b' } },
+        }))
+        expect(document.components.schemas).toMatchObject({
+            A: { $ref: '#/components/schemas/Pet' },
+            B: { $ref: '#/components/schemas/Pet_2' },
+            Pet: { title: 'a' },
+            Pet_2: { title: 'b' },
+        })
+    })
+
+    it('leaves $ref keys in example and default values alone', async () => {
+        const literal = { $ref: 'not-a-file.json' }
+        const root = {
+            paths: {
+                '/pets': {
+                    get: {
+                        parameters: [{ name: 'q', in: 'query', example: literal }],
+                        responses: {
+                            200: {
+                                description: 'Pets',
+                                content: {
+                                    'application/json': {
+                                        example: literal,
+                                        examples: { one: { value: literal } },
+                                        schema: {
+                                            default: literal,
+                                            enum: [literal],
+                                            properties: { example: { $ref: 'pet.json' }, default: { type: 'string', example: literal } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        }
+        const { document, externalDocuments, warnings } = await bundleDocument(root, ROOT_URL, fetchFrom({
+            'https://specs.test/api/pet.json': { type: 'object' },
+        }))
+        expect(warnings).toEqual([])
+        expect(externalDocuments).toEqual(['https://specs.test/api/pet.json'])
+        const content = document.paths['/pets'].get.responses[200].content['application/json']
+        expect(content.schema.properties.example).toEqual({ $ref: '#/components/schemas/pet' })
+        expect(JSON.stringify(document).match(/not-a-file\.json/g)).toHaveLength(6)
+    })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateJsonPath, extractBodyValue, runCaptureRules, type CaptureRule } from '@/utils/response-capture'
+
+const body = {
+    token: 'abc',
+    items: [
+        { _id: 1, tags: ['a'], owner: { name: 'x' } },
+        { _id: 2, tags: ['b', 'c'] },
+    ],
+    'odd.key': true,
+}
+
+describe('evaluateJsonPath', () => {
+    it.each<[string, unknown[]]>([
+        ['$', [body]],
+        ['$.token', ['abc']],
+        ['$.items[0]._id', [1]],
+        ['$.items[-1]._id', [2]],
+        ['$.items[5]', []],
+        ["$['odd.key']", [true]],
+        ['$["token"]', ['abc']],
+        ['$.items[*]._id', [1, 2]],
+        ['$.items.*.tags[0]', ['a', 'b']],
+        ['$..name', ['x']],
+        ['$.items..tags[1]', ['c']],
+        ['$..missing', []],
+        ['$.token.length', []],
+        ['$.toString', []],
+        ['$..constructor', []],
+        ["$.items[0]['__proto__']", []],
+    ])('%s', (path, expected) => {
+        expect(evaluateJsonPath(body, path)).toEqual(expected)
+    })
+
+    it.each([
+        ['token', 'JSONPath must start with $'],
+        ['$.items[0', 'Unterminated [ in JSONPath'],
+        ['$.items[?(@._id)]', 'Unsupported JSONPath selector [?(@._id)]'],
+        ['$.', 'Expected a property name at position 2'],
+    ])('rejects %s', (path, message) => {
+        expect(() => evaluateJsonPath(body, path)).toThrow(message)
+    })
+})
+
+describe('extractBodyValue', () => {
+    it.each<[string, unknown]>([
+        ['$.items[1]._id', 2],
+        ['$.items[*]._id', 1],
+        ['/items/0/owner/name', 'x'],
+        ['/odd.key', true],
+        ['', body],
+        ['$.nothing', undefined],
+        ['/toString', undefined],
+    ])('%j', (expression, expected) => {
+        expect(extractBodyValue(body, expression)).toEqual(expected)
+    })
+
+    it('rejects other expressions', () => {
+        expect(() => extractBodyValue(body, 'items')).toThrow('Use a JSONPath starting with $ or a JSON pointer starting with /')
+    })
+})
+
+describe('runCaptureRules', () => {
+    const rule = (source: CaptureRule['source'], expression: string, variable = 'out'): CaptureRule => ({ variable, source, expression, enabled: true })
+
+    it.each<[string, CaptureRule, unknown, { value: string | null; error?: string }]>([
+        ['string body value', rule('body', '$.token'), body, { value: 'abc' }],
+        ['non-string values as JSON', rule('body', '$.items[1].tags'), body, { value: '["b","c"]' }],
+        ['JSON text bodies are parsed', rule('body', '$.id'), '{"id":7}', { value: '7' }],
+        ['whole text body', rule('body', '/'), 'plain', { value: 'plain' }],
+        ['no match', rule('body', '$.nothing'), body, { value: null, error: 'No match in the response' }],
+        ['invalid path', rule('body', '$.a['), body, { value: null, error: 'Unterminated [ in JSONPath' }],
+        ['header, case-insensitive', rule('header', 'x-request-id'), body, { value: 'r-1' }],
+        ['status', rule('status', ''), body, { value: '201' }],
+    ])('%s', (_name, captureRule, responseBody, expected) => {
+        const [result] = runCaptureRules([captureRule], { status: 201, headers: { 'X-Request-Id': 'r-1' }, body: responseBody })
+        expect(result).toEqual({ variable: 'out', ...expected })
+    })
+
+    it('skips disabled and unnamed rules', () => {
+        const rules = [{ ...rule('status', ''), enabled: false }, rule('status', '', '  ')]
+        expect(runCaptureRules(rules, { status: 200, headers: {}, body: null })).toEqual([])
+    })
+})
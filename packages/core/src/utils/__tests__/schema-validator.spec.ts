@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { resolveLocalReference } from '@/utils/ref-resolver'
+import type { OpenApiDocument, SchemaOrRef } from '@/utils/schema'
+import { createSchemaValidator } from '@/utils/schema-validator'
+
+const spec = {
+    openapi: '3.0.3',
+    info: { title: 'Test', version: '1.0.0' },
+    paths: {},
+    components: {
+        schemas: {
+            Owner: {
+                type: 'object',
+                required: ['name'],
+                properties: { name: { type: 'string' } },
+            },
+            Node: {
+                type: 'object',
+                properties: { next: { $ref: '#/components/schemas/Node' } },
+            },
+        },
+    },
+} as OpenApiDocument
+
+const validator = createSchemaValidator({ resolveReference: (ref, document) => resolveLocalReference(document, ref) })
+
+function validate(schema: SchemaOrRef, value: unknown, mode?: 'request' | 'response') {
+    return validator.validate(schema, value, spec, { mode }).map(({ pointer, keyword }) => `${pointer}:${keyword}`)
+}
+
+describe('createSchemaValidator', () => {
+    it.each<[string, SchemaOrRef, unknown, string[]]>([
+        ['matching type', { type: 'string' }, 'a', []],
+        ['wrong type', { type: 'string' }, 1, [':type']],
+        ['integer as number', { type: 'number' }, 3, []],
+        ['fraction as integer', { type: 'integer' }, 1.5, [':type']],
+        ['3.0 nullable', { type: 'string', nullable: true }, null, []],
+        ['null without nullable', { type: 'string' }, null, [':type']],
+        ['nullable allOf', { nullable: true, allOf: [{ $ref: '#/components/schemas/Owner' }] }, null, []],
+        ['nullable oneOf', { nullable: true, oneOf: [{ type: 'string' }, { type: 'integer' }] }, null, []],
+        ['allOf without nullable', { allOf: [{ $ref: '#/components/schemas/Owner' }] }, null, [':type']],
+        ['3.1 type array', { type: ['string', 'null'] } as SchemaOrRef, null, []],
+        ['enum', { enum: ['a', 'b'] }, 'c', [':enum']],
+        ['const', { const: { a: 1 } } as SchemaOrRef, { a: 1 }, []],
+        ['minLength counts code points', { type: 'string', minLength: 2 }, '😀', [':minLength']],
+        ['pattern', { type: 'string', pattern: '^[a-z]+$' }, 'A1', [':pattern']],
+        ['date format', { type: 'string', format: 'date' }, '2024-02-30', [':format']],
+        ['date-time format', { type: 'string', format: 'date-time' }, '2024-02-01T10:00:00Z', []],
+        ['unknown format', { type: 'string', format: 'custom' }, 'anything', []],
+        ['3.0 exclusiveMinimum', { type: 'number', minimum: 1, exclusiveMinimum: true }, 1, [':minimum']],
+        ['3.1 exclusiveMaximum', { type: 'number', exclusiveMaximum: 5 } as SchemaOrRef, 5, [':exclusiveMaximum']],
+        ['multipleOf with decimals', { type: 'number', multipleOf: 0.1 }, 0.3, []],
+        ['int32 range', { type: 'integer', format: 'int32' }, 2147483648, [':format']],
+        ['int64 beyond the safe integers', { type: 'integer', format: 'int64' }, JSON.parse('9223372036854775807'), []],
+        ['uniqueItems', { type: 'array', items: {}, uniqueItems: true }, [{ a: 1, b: 2 }, { b: 2, a: 1 }], ['/1:uniqueItems']],
+        ['item schema', { type: 'array', items: { type: 'integer' } }, [1, 'x'], ['/1:type']],
+        ['required property', { $ref: '#/components/schemas/Owner' }, {}, ['/name:required']],
+        ['escaped pointer', { type: 'object', required: ['a/b'] }, {}, ['/a~1b:required']],
+        ['additionalProperties false', { type: 'object', additionalProperties: false }, { extra: 1 }, ['/extra:additionalProperties']],
+        ['allOf', { allOf: [{ $ref: '#/components/schemas/Owner' }, { required: ['id'] }] }, { name: 'a' }, ['/id:required']],
+        ['anyOf', { anyOf: [{ type: 'string' }, { type: 'integer' }] }, true, [':anyOf']],
+        ['single branch keeps its errors', { oneOf: [{ type: 'string' }] }, 1, [':type']],
+        ['not', { not: { type: 'string' } }, 'a', [':not']],
+        ['self reference', { $ref: '#/components/schemas/Node' }, { next: { next: {} } }, []],
+    ])('%s', (_name, schema, value, expected) => {
+        expect(validate(schema, value)).toEqual(expected)
+    })
+
+    it.each<[string, 'request' | 'response', string[]]>([
+        ['readOnly properties are optional in requests', 'request', []],
+        ['readOnly properties are required in responses', 'response', ['/id:required']],
+    ])('%s', (_name, mode, expected) => {
+        const schema: SchemaOrRef = { type: 'object', required: ['id'], properties: { id: { type: 'string', readOnly: true } } }
+        expect(validate(schema, {}, mode)).toEqual(expected)
+    })
+
+    it('picks the branch named by the discriminator', () => {
+        const schema: SchemaOrRef = {
+            oneOf: [{ $ref: '#/components/schemas/Owner' }, { type: 'object' }],
+            discriminator: { propertyName: 'kind', mapping: { owner: '#/components/schemas/Owner' } },
+        }
+        expect(validate(schema, { kind: 'owner' })).toEqual(['/name:required'])
+    })
+})
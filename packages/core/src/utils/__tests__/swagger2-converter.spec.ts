@@ -0,0 +1,173 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types'
+import { describe, expect, it } from 'vitest'
+import { convertSwagger2ToOpenApi3, isSwagger2Document } from '@/utils/swagger2-converter'
+
+function swagger(overrides: Partial<OpenAPIV2.Document> = {}): OpenAPIV2.Document {
+    return { swagger: '2.0', info: { title: 'Pets', version: '1' }, paths: {}, ...overrides }
+}
+
+describe('isSwagger2Document', () => {
+    it.each<[unknown, boolean]>([
+        [{ swagger: '2.0' }, true],
+        [{ openapi: '3.0.0' }, false],
+        [{ swagger: 2 }, false],
+        [null, false],
+    ])('%j', (document, expected) => {
+        expect(isSwagger2Document(document)).toBe(expected)
+    })
+})
+
+describe('convertSwagger2ToOpenApi3', () => {
+    it.each<[string, Partial<OpenAPIV2.Document>, string | undefined, OpenAPIV3.ServerObject[]]>([
+        ['host, basePath and schemes', { host: 'api.test', basePath: '/v1/', schemes: ['http', 'https'] }, undefined, [
+            { url: 'http://api.test/v1' },
+            { url: 'https://api.test/v1' },
+        ]],
+        ['host and scheme of the spec URL', { basePath: '/v1' }, 'http://spec.test:8080/swagger.json', [{ url: 'http://spec.test:8080/v1' }]],
+        ['base path only', { basePath: '/v1' }, undefined, [{ url: '/v1' }]],
+        ['nothing', {}, undefined, [{ url: '/' }]],
+    ])('builds servers from %s', (_name, overrides, specUrl, expected) => {
+        expect(convertSwagger2ToOpenApi3(swagger(overrides), specUrl).document.servers).toEqual(expected)
+    })
+
+    it('converts definitions and their refs into component schemas', () => {
+        const { document: converted } = convertSwagger2ToOpenApi3(swagger({
+            definitions: {
+                Pet: {
+                    type: 'object',
+                    discriminator: 'kind',
+                    properties: {
+                        owner: { $ref: '#/definitions/Owner' },
+                        photo: { type: 'file' },
+                        nickname: { type: 'string', 'x-nullable': true } as OpenAPIV2.SchemaObject,
+                    },
+                },
+            },
+        }))
+        expect(converted.components?.schemas?.Pet).toEqual({
+            type: 'object',
+            discriminator: { propertyName: 'kind' },
+            properties: {
+                owner: { $ref: '#/components/schemas/Owner' },
+                photo: { type: 'string', format: 'binary' },
+                nickname: { type: 'string', nullable: true },
+            },
+        })
+    })
+
+    it('converts parameters, request bodies and responses of an operation', () => {
+        const { document: converted } = convertSwagger2ToOpenApi3(swagger({
+            consumes: ['application/json'],
+            produces: ['application/json', 'application/xml'],
+            parameters: {
+                Body: { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+                Limit: { name: 'limit', in: 'query', type: 'integer' },
+            },
+            paths: {
+                '/pets/{id}': {
+                    parameters: [{ name: 'id', in: 'path', type: 'string' }, { $ref: '#/parameters/Limit' }],
+                    put: {
+                        operationId: 'updatePet',
+                        parameters: [
+                            { name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+                            { $ref: '#/parameters/Body' },
+                        ],
+                        responses: {
+                            200: { description: 'Updated', schema: { $ref: '#/definitions/Pet' }, headers: { 'X-Rate': { type: 'integer' } } },
+                        },
+                    },
+                },
+            },
+        }))
+
+        expect(converted.components?.requestBodies?.Body).toEqual({
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        })
+        expect(converted.components?.parameters?.Limit).toEqual({ name: 'limit', in: 'query', schema: { type: 'integer' } })
+        expect(converted.paths['/pets/{id}']?.put).toEqual({
+            operationId: 'updatePet',
+            parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+                { $ref: '#/components/parameters/Limit' },
+                { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true },
+            ],
+            requestBody: { $ref: '#/components/requestBodies/Body' },
+            responses: {
+                200: {
+                    description: 'Updated',
+                    content: {
+                        'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+                        'application/xml': { schema: { $ref: '#/components/schemas/Pet' } },
+                    },
+                    headers: { 'X-Rate': { schema: { type: 'integer' } } },
+                },
+            },
+        })
+    })
+
+    it('merges formData parameters into one form request body', () => {
+        const { document: converted } = convertSwagger2ToOpenApi3(swagger({
+            paths: {
+                '/upload': {
+                    post: {
+                        parameters: [
+                            { name: 'file', in: 'formData', type: 'file', required: true },
+                            { name: 'note', in: 'formData', type: 'string', description: 'Note' },
+                        ],
+                        responses: { 204: { description: 'Done' } },
+                    },
+                },
+            },
+        }))
+        expect(converted.paths['/upload']?.post?.requestBody).toEqual({
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            file: { type: 'string', format: 'binary' },
+                            note: { type: 'string', description: 'Note' },
+                        },
+                        required: ['file'],
+                    },
+                },
+            },
+        })
+    })
+
+    it.each<[string, OpenAPIV2.SecuritySchemeObject, OpenAPIV3.SecuritySchemeObject]>([
+        ['basic', { type: 'basic' }, { type: 'http', scheme: 'basic' }],
+        ['apiKey', { type: 'apiKey', name: 'X-Key', in: 'header' }, { type: 'apiKey', name: 'X-Key', in: 'header' }],
+        ['oauth2 application flow', { type: 'oauth2', flow: 'application', tokenUrl: 'https://t.test', scopes: { read: 'Read' } }, {
+            type: 'oauth2',
+            flows: { clientCredentials: { tokenUrl: 'https://t.test', scopes: { read: 'Read' } } },
+        }],
+    ])('converts the %s security scheme', (_name, scheme, expected) => {
+        const { document: converted } = convertSwagger2ToOpenApi3(swagger({ securityDefinitions: { auth: scheme } }))
+        expect(converted.components?.securitySchemes?.auth).toEqual(expected)
+    })
+
+    it('inlines path items referencing another path item of the document', () => {
+        const { document: converted, warnings } = convertSwagger2ToOpenApi3(swagger({
+            paths: {
+                '/pets': { get: { operationId: 'listPets', responses: { 200: { description: 'Pets' } } } },
+                '/animals': { $ref: '#/paths/~1pets' },
+            },
+        }))
+        expect(warnings).toEqual([])
+        expect(converted.paths['/animals']).toEqual(converted.paths['/pets'])
+        expect(converted.paths['/animals']?.get?.operationId).toBe('listPets')
+    })
+
+    it('reports path item refs it cannot resolve', () => {
+        const { document: converted, warnings } = convertSwagger2ToOpenApi3(swagger({
+            paths: { '/pets': { $ref: 'paths/pets.yaml' } },
+        }))
+        expect(converted.paths).toEqual({})
+        expect(warnings).toEqual([
+            'Unresolved path item $ref "paths/pets.yaml" for /pets: Swagger 2.0 path items can only be converted from the same document',
+        ])
+    })
+})
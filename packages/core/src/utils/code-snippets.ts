@@ -0,0 +1,459 @@
+import { getRequestBodyKind, type BinaryBodySnapshot, type FormFieldSnapshot } from '@/utils/request-body'
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'undici' | 'python' | 'go' | 'httpie' | 'powershell'
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+    { id: 'curl', label: 'cURL' },
+    { id: 'fetch', label: 'fetch (TypeScript)' },
+    { id: 'axios', label: 'axios' },
+    { id: 'undici', label: 'Node undici' },
+    { id: 'python', label: 'Python requests' },
+    { id: 'go', label: 'Go net/http' },
+    { id: 'httpie', label: 'HTTPie' },
+    { id: 'powershell', label: 'PowerShell' },
+]
+
+// What a snippet is generated from: a request history item, or one built from the current form
+export type SnippetRequest = {
+    method: string
+    url: string
+    headers: Record<string, string>
+    requestContentType: string | null
+    // Parsed JSON, text, form field snapshots or a binary body snapshot, as kept in request history
+    requestBody: any
+}
+
+type SnippetBody =
+    | { kind: 'none' }
+    | { kind: 'json'; value: unknown }
+    | { kind: 'text'; text: string }
+    | { kind: 'urlencoded'; fields: FormFieldSnapshot[] }
+    | { kind: 'multipart'; fields: FormFieldSnapshot[] }
+    | { kind: 'binary'; fileName: string }
+
+// Methods the tester sends a body with
+const BODY_METHODS = ['POST', 'PUT', 'PATCH']
+
+function getSnippetBody(request: SnippetRequest): SnippetBody {
+    const body = request.requestBody
+    if (!BODY_METHODS.includes(request.method.toUpperCase()) || body === null || body === undefined || body === '') {
+        return { kind: 'none' }
+    }
+    switch (getRequestBodyKind(request.requestContentType)) {
+        case 'multipart': return { kind: 'multipart', fields: body as FormFieldSnapshot[] }
+        case 'urlencoded': return { kind: 'urlencoded', fields: body as FormFieldSnapshot[] }
+        case 'binary': return { kind: 'binary', fileName: (body as BinaryBodySnapshot).fileName }
+        case 'text': return { kind: 'text', text: String(body) }
+        // JSON that didn't parse is kept as a string and sent as-is
+        default: return typeof body === 'string' ? { kind: 'text', text: body } : { kind: 'json', value: body }
+    }
+}
+
+function isContentTypeHeader(name: string): boolean {
+    return name.toLowerCase() === 'content-type'
+}
+
+function encodeFormFields(fields: FormFieldSnapshot[]): string {
+    const params = new URLSearchParams()
+    for (const field of fields) {
+        params.append(field.name, field.value ?? '')
+    }
+    return params.toString()
+}
+
+// Indents every line but the first, for nesting multi-line literals
+function indentLines(text: string, prefix: string): string {
+    return text.split('\n').join(`\n${prefix}`)
+}
+
+// Double-quoted string literal that is valid in JavaScript, Python and Go
+function quote(value: string): string {
+    return JSON.stringify(value)
+}
+
+// Go raw string literal when the text allows it (no backticks or carriage returns), else a quoted one
+function goString(value: string): string {
+    return /[`\r]/.test(value) ? quote(value) : `\`${value}\``
+}
+
+/**
+ * Wraps a value in single quotes for a POSIX shell
+ */
+function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// Single-quoted PowerShell string; PowerShell also treats typographic single quotes as quote characters
+function powerShellQuote(value: string): string {
+    return `'${value.replace(/['‘’‚‛]/g, match => match + match)}'`
+}
+
+function toCurl(request: SnippetRequest): string {
+    const parts: string[] = ['curl']
+    if (request.method !== 'GET') {
+        parts.push(`-X ${request.method}`)
+    }
+
+    for (const [name, value] of Object.entries(request.headers)) {
+        parts.push(name.toLowerCase() === 'cookie' ? `-b ${shellQuote(value)}` : `-H ${shellQuote(`${name}: ${value}`)}`)
+    }
+
+    const body = getSnippetBody(request)
+    switch (body.kind) {
+        case 'multipart':
+            for (const field of body.fields) {
+                parts.push(field.fileName !== undefined
+                    ? `-F ${shellQuote(`${field.name}=@${field.fileName}`)}`
+                    : `--form-string ${shellQuote(`${field.name}=${field.value ?? ''}`)}`)
+            }
+            break
+        case 'urlencoded':
+            parts.push(`-d ${shellQuote(encodeFormFields(body.fields))}`)
+            break
+        case 'binary':
+            parts.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`)
+            break
+        case 'text':
+            parts.push(`--data-raw ${shellQuote(body.text)}`)
+            break
+        case 'json':
+            parts.push(`--data-raw ${shellQuote(JSON.stringify(body.value, null, 2))}`)
+            break
+    }
+
+    parts.push(shellQuote(request.url))
+    return parts.join(' \\\n  ')
+}
+
+// Object literal of the headers for JavaScript snippets; multipart bodies let the client set Content-Type
+function jsHeaders(request: SnippetRequest, body: SnippetBody): string {
+    const headers = Object.fromEntries(Object.entries(request.headers)
+        .filter(([name]) => body.kind !== 'multipart' || !isContentTypeHeader(name)))
+    return JSON.stringify(headers, null, 2)
+}
+
+// Statements building a FormData for JavaScript snippets (files are read with Node's `openAsBlob`)
+function jsFormData(fields: FormFieldSnapshot[]): string[] {
+    return [
+        'const form = new FormData();',
+        ...fields.map(field => field.fileName !== undefined
+            ? `form.append(${quote(field.name)}, await openAsBlob(${quote(field.fileName)}), ${quote(field.fileName)});`
+            : `form.append(${quote(field.name)}, ${quote(field.value ?? '')});`),
+        '',
+    ]
+}
+
+function jsFormPairs(fields: FormFieldSnapshot[]): string {
+    return `new URLSearchParams(${JSON.stringify(fields.map(field => [field.name, field.value ?? '']))})`
+}
+
+function toFetch(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const lines: string[] = []
+    if (body.kind === 'multipart' || body.kind === 'binary') {
+        lines.push('import { openAsBlob } from "node:fs";', '')
+    }
+    if (body.kind === 'multipart') lines.push(...jsFormData(body.fields))
+
+    lines.push(`const response = await fetch(${quote(request.url)}, {`)
+    lines.push(`  method: ${quote(request.method)},`)
+    lines.push(`  headers: ${indentLines(jsHeaders(request, body), '  ')},`)
+    switch (body.kind) {
+        case 'json': lines.push(`  body: JSON.stringify(${indentLines(JSON.stringify(body.value, null, 2), '  ')}),`); break
+        case 'text': lines.push(`  body: ${quote(body.text)},`); break
+        case 'urlencoded': lines.push(`  body: ${jsFormPairs(body.fields)},`); break
+        case 'multipart': lines.push('  body: form,'); break
+        case 'binary': lines.push(`  body: await openAsBlob(${quote(body.fileName)}),`); break
+    }
+    lines.push('});', '', 'console.log(response.status, await response.text());')
+    return lines.join('\n')
+}
+
+function toAxios(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const lines: string[] = ['import axios from "axios";']
+    if (body.kind === 'multipart') lines.push('import { openAsBlob } from "node:fs";')
+    if (body.kind === 'binary') lines.push('import { readFile } from "node:fs/promises";')
+    lines.push('')
+    if (body.kind === 'multipart') lines.push(...jsFormData(body.fields))
+
+    lines.push('const response = await axios.request({')
+    lines.push(`  method: ${quote(request.method)},`)
+    lines.push(`  url: ${quote(request.url)},`)
+    lines.push(`  headers: ${indentLines(jsHeaders(request, body), '  ')},`)
+    switch (body.kind) {
+        case 'json': lines.push(`  data: ${indentLines(JSON.stringify(body.value, null, 2), '  ')},`); break
+        case 'text': lines.push(`  data: ${quote(body.text)},`); break
+        case 'urlencoded': lines.push(`  data: ${jsFormPairs(body.fields)},`); break
+        case 'multipart': lines.push('  data: form,'); break
+        case 'binary': lines.push(`  data: await readFile(${quote(body.fileName)}),`); break
+    }
+    // Keep error statuses as responses instead of thrown errors, like the other snippets
+    lines.push('  validateStatus: () => true,')
+    lines.push('});', '', 'console.log(response.status, response.data);')
+    return lines.join('\n')
+}
+
+function toUndici(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const lines: string[] = [body.kind === 'multipart' ? 'import { request, FormData } from "undici";' : 'import { request } from "undici";']
+    if (body.kind === 'multipart') lines.push('import { openAsBlob } from "node:fs";')
+    if (body.kind === 'binary') lines.push('import { createReadStream } from "node:fs";')
+    lines.push('')
+    if (body.kind === 'multipart') lines.push(...jsFormData(body.fields))
+
+    lines.push(`const { statusCode, body } = await request(${quote(request.url)}, {`)
+    lines.push(`  method: ${quote(request.method)},`)
+    lines.push(`  headers: ${indentLines(jsHeaders(request, body), '  ')},`)
+    switch (body.kind) {
+        case 'json': lines.push(`  body: JSON.stringify(${indentLines(JSON.stringify(body.value, null, 2), '  ')}),`); break
+        case 'text': lines.push(`  body: ${quote(body.text)},`); break
+        case 'urlencoded': lines.push(`  body: ${jsFormPairs(body.fields)}.toString(),`); break
+        case 'multipart': lines.push('  body: form,'); break
+        case 'binary': lines.push(`  body: createReadStream(${quote(body.fileName)}),`); break
+    }
+    lines.push('});', '', 'console.log(statusCode, await body.text());')
+    return lines.join('\n')
+}
+
+/**
+ * Python literal for a JSON value, indented with four spaces
+ */
+function toPythonLiteral(value: unknown, depth = 0): string {
+    const pad = '    '.repeat(depth + 1)
+    const closePad = '    '.repeat(depth)
+    if (value === null || value === undefined) return 'None'
+    if (value === true) return 'True'
+    if (value === false) return 'False'
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None'
+    if (typeof value === 'string') return quote(value)
+    if (Array.isArray(value)) {
+        if (value.length === 0) return '[]'
+        return `[\n${value.map(item => `${pad}${toPythonLiteral(item, depth + 1)}`).join(',\n')},\n${closePad}]`
+    }
+    const entries = Object.entries(value as Record<string, unknown>)
+    if (entries.length === 0) return '{}'
+    return `{\n${entries.map(([key, item]) => `${pad}${quote(key)}: ${toPythonLiteral(item, depth + 1)}`).join(',\n')},\n${closePad}}`
+}
+
+function toPython(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const headers = Object.fromEntries(Object.entries(request.headers)
+        .filter(([name]) => body.kind !== 'multipart' || !isContentTypeHeader(name)))
+
+    const args: string[] = [quote(request.method), quote(request.url)]
+    if (Object.keys(headers).length > 0) args.push(`headers=${toPythonLiteral(headers, 1)}`)
+    switch (body.kind) {
+        case 'json': args.push(`json=${toPythonLiteral(body.value, 1)}`); break
+        case 'text': args.push(`data=${quote(body.text)}`); break
+        case 'urlencoded':
+            args.push(`data=[${body.fields.map(field => `(${quote(field.name)}, ${quote(field.value ?? '')})`).join(', ')}]`)
+            break
+        case 'multipart': {
+            const values = body.fields.filter(field => field.fileName === undefined)
+            const files = body.fields.filter(field => field.fileName !== undefined)
+            if (values.length > 0) {
+                args.push(`data=[${values.map(field => `(${quote(field.name)}, ${quote(field.value ?? '')})`).join(', ')}]`)
+            }
+            if (files.length > 0) {
+                args.push(`files=[${files.map(field => `(${quote(field.name)}, (${quote(field.fileName!)}, open(${quote(field.fileName!)}, "rb")))`).join(', ')}]`)
+            }
+            break
+        }
+        case 'binary': args.push(`data=open(${quote(body.fileName)}, "rb")`); break
+    }
+
+    return [
+        'import requests',
+        '',
+        'response = requests.request(',
+        ...args.map(arg => `    ${arg},`),
+        ')',
+        '',
+        'print(response.status_code)',
+        'print(response.text)',
+    ].join('\n')
+}
+
+function toGo(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const imports = new Set(['fmt', 'io', 'net/http'])
+    const setup: string[] = []
+    let bodyArg = 'nil'
+
+    switch (body.kind) {
+        case 'json':
+            imports.add('strings')
+            bodyArg = `strings.NewReader(${goString(JSON.stringify(body.value, null, 2))})`
+            break
+        case 'text':
+            imports.add('strings')
+            bodyArg = `strings.NewReader(${goString(body.text)})`
+            break
+        case 'urlencoded':
+            imports.add('strings')
+            bodyArg = `strings.NewReader(${quote(encodeFormFields(body.fields))})`
+            break
+        case 'binary':
+            imports.add('os')
+            setup.push(
+                `\tfile, err := os.Open(${quote(body.fileName)})`,
+                '\tif err != nil {',
+                '\t\tpanic(err)',
+                '\t}',
+                '\tdefer file.Close()',
+                '',
+            )
+            bodyArg = 'file'
+            break
+        case 'multipart':
+            imports.add('bytes')
+            imports.add('mime/multipart')
+            setup.push('\tvar payload bytes.Buffer', '\twriter := multipart.NewWriter(&payload)')
+            for (const field of body.fields) {
+                if (field.fileName === undefined) {
+                    setup.push(`\twriter.WriteField(${quote(field.name)}, ${quote(field.value ?? '')})`)
+                    continue
+                }
+                imports.add('os')
+                setup.push(
+                    '\t{',
+                    `\t\tpart, err := writer.CreateFormFile(${quote(field.name)}, ${quote(field.fileName)})`,
+                    '\t\tif err != nil {',
+                    '\t\t\tpanic(err)',
+                    '\t\t}',
+                    `\t\tfile, err := os.Open(${quote(field.fileName)})`,
+                    '\t\tif err != nil {',
+                    '\t\t\tpanic(err)',
+                    '\t\t}',
+                    '\t\tio.Copy(part, file)',
+                    '\t\tfile.Close()',
+                    '\t}',
+                )
+            }
+            setup.push('\twriter.Close()', '')
+            bodyArg = '&payload'
+            break
+    }
+
+    const headerLines = Object.entries(request.headers)
+        .filter(([name]) => body.kind !== 'multipart' || !isContentTypeHeader(name))
+        .map(([name, value]) => `\treq.Header.Set(${quote(name)}, ${quote(value)})`)
+    if (body.kind === 'multipart') headerLines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())')
+
+    return [
+        'package main',
+        '',
+        'import (',
+        ...[...imports].sort().map(name => `\t${quote(name)}`),
+        ')',
+        '',
+        'func main() {',
+        ...setup,
+        `\treq, err := http.NewRequest(${quote(request.method)}, ${quote(request.url)}, ${bodyArg})`,
+        '\tif err != nil {',
+        '\t\tpanic(err)',
+        '\t}',
+        ...headerLines,
+        '',
+        '\tresp, err := http.DefaultClient.Do(req)',
+        '\tif err != nil {',
+        '\t\tpanic(err)',
+        '\t}',
+        '\tdefer resp.Body.Close()',
+        '',
+        '\tdata, err := io.ReadAll(resp.Body)',
+        '\tif err != nil {',
+        '\t\tpanic(err)',
+        '\t}',
+        '\tfmt.Println(resp.Status)',
+        '\tfmt.Println(string(data))',
+        '}',
+    ].join('\n')
+}
+
+function toHttpie(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const parts: string[] = ['http']
+    if (body.kind === 'urlencoded') parts.push('--form')
+    if (body.kind === 'multipart') parts.push('--multipart')
+    // Raw bodies are passed as-is; HTTPie would otherwise turn request items into a JSON object
+    if (body.kind === 'json') parts.push(`--raw ${shellQuote(JSON.stringify(body.value, null, 2))}`)
+    if (body.kind === 'text') parts.push(`--raw ${shellQuote(body.text)}`)
+    parts.push(request.method, shellQuote(request.url))
+
+    for (const [name, value] of Object.entries(request.headers)) {
+        if (body.kind === 'multipart' && isContentTypeHeader(name)) continue
+        parts.push(shellQuote(`${name}:${value}`))
+    }
+    if (body.kind === 'urlencoded' || body.kind === 'multipart') {
+        for (const field of body.fields) {
+            parts.push(field.fileName !== undefined
+                ? shellQuote(`${field.name}@${field.fileName}`)
+                : shellQuote(`${field.name}=${field.value ?? ''}`))
+        }
+    }
+    if (body.kind === 'binary') parts.push(`< ${shellQuote(body.fileName)}`)
+    return parts.join(' \\\n  ')
+}
+
+function toPowerShell(request: SnippetRequest): string {
+    const body = getSnippetBody(request)
+    const lines: string[] = []
+    const contentType = Object.entries(request.headers).find(([name]) => isContentTypeHeader(name))?.[1]
+    // Invoke-WebRequest takes the content type as a parameter rather than a header
+    const headers = Object.entries(request.headers).filter(([name]) => !isContentTypeHeader(name))
+
+    const args: string[] = [`-Uri ${powerShellQuote(request.url)}`, `-Method ${powerShellQuote(request.method)}`]
+    if (headers.length > 0) {
+        lines.push('$headers = @{', ...headers.map(([name, value]) => `    ${powerShellQuote(name)} = ${powerShellQuote(value)}`), '}')
+        args.push('-Headers $headers')
+    }
+    if (contentType && body.kind !== 'multipart') args.push(`-ContentType ${powerShellQuote(contentType)}`)
+
+    switch (body.kind) {
+        case 'json':
+            lines.push(`$body = ${powerShellQuote(JSON.stringify(body.value, null, 2))}`)
+            args.push('-Body $body')
+            break
+        case 'text':
+            lines.push(`$body = ${powerShellQuote(body.text)}`)
+            args.push('-Body $body')
+            break
+        case 'urlencoded':
+            lines.push(`$body = ${powerShellQuote(encodeFormFields(body.fields))}`)
+            args.push('-Body $body')
+            break
+        case 'multipart':
+            lines.push('$form = @{', ...body.fields.map(field => field.fileName !== undefined
+                ? `    ${powerShellQuote(field.name)} = Get-Item -Path ${powerShellQuote(field.fileName)}`
+                : `    ${powerShellQuote(field.name)} = ${powerShellQuote(field.value ?? '')}`), '}')
+            args.push('-Form $form')
+            break
+        case 'binary':
+            args.push(`-InFile ${powerShellQuote(body.fileName)}`)
+            break
+    }
+
+    // Error statuses are returned instead of thrown (PowerShell 7+)
+    args.push('-SkipHttpErrorCheck')
+    if (lines.length > 0) lines.push('')
+    lines.push(`$response = Invoke-WebRequest ${args.join(' `\n    ')}`, '', '$response.StatusCode', '$response.Content')
+    return lines.join('\n')
+}
+
+/**
+ * Generates a code snippet that sends the request in the given language or tool
+ */
+export function generateSnippet(request: SnippetRequest, language: SnippetLanguage): string {
+    switch (language) {
+        case 'fetch': return toFetch(request)
+        case 'axios': return toAxios(request)
+        case 'undici': return toUndici(request)
+        case 'python': return toPython(request)
+        case 'go': return toGo(request)
+        case 'httpie': return toHttpie(request)
+        case 'powershell': return toPowerShell(request)
+        default: return toCurl(request)
+    }
+}
@@ -0,0 +1,115 @@
+import type { OpenAPIV3 } from 'openapi-types'
+import type { SchemaOrRef } from '@/utils/schema'
+import type { ValidationError } from '@/utils/schema-validator'
+
+export type ContractIssue = {
+    // 'status': no documented response for the status code; 'content-type': the media type isn't
+    // documented for it; 'schema': the body doesn't match the documented schema
+    kind: 'status' | 'content-type' | 'schema'
+    // JSON pointer within the response body, for schema issues
+    pointer?: string
+    keyword?: string
+    message: string
+}
+
+export type ContractCheckResult = {
+    // Key of the matched `responses` entry: the exact code, a range such as '2XX', or 'default'
+    responseKey: string | null
+    // Key of the matched media type within that response's `content`
+    mediaType: string | null
+    // False when there was no JSON schema to validate the body against
+    schemaChecked: boolean
+    issues: ContractIssue[]
+}
+
+/**
+ * Finds the `responses` entry for a status code: the exact code first, then its range (`2XX`), then `default`
+ */
+export function findResponseKey(responses: Record<string, unknown> | undefined, status: number): string | null {
+    if (!responses) return null
+    const keys = Object.keys(responses)
+    const code = String(status)
+    const range = `${code[0]}XX`
+    return keys.find(key => key === code)
+        ?? keys.find(key => key.toUpperCase() === range)
+        ?? keys.find(key => key === 'default')
+        ?? null
+}
+
+/**
+ * Finds the `content` entry for a response Content-Type, allowing `type/*` and `* / *` wildcards
+ */
+export function findMediaTypeKey(content: Record<string, OpenAPIV3.MediaTypeObject> | undefined, contentType: string | null): string | null {
+    if (!content) return null
+    const keys = Object.keys(content)
+    const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase()
+    if (!type) return keys.length === 1 ? keys[0]! : null
+    return keys.find(key => key.toLowerCase() === type)
+        ?? keys.find(key => key.toLowerCase() === `${type.split('/')[0]}/*`)
+        ?? keys.find(key => key === '*/*')
+        ?? null
+}
+
+function isJsonMediaType(type: string): boolean {
+    const base = type.split(';')[0]!.trim().toLowerCase()
+    return base === 'application/json' || base.endsWith('+json') || base === '*/*'
+}
+
+/**
+ * Checks a response against the operation's documented responses. `resolveResponse` follows a
+ * response $ref and `validate` checks the parsed body against a schema (in response mode).
+ */
+export function checkResponseContract(
+    responses: OpenAPIV3.ResponsesObject | undefined,
+    status: number,
+    contentType: string | null,
+    body: string | Blob,
+    resolveResponse: (response: OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject) => OpenAPIV3.ResponseObject | null,
+    validate: (schema: SchemaOrRef, value: unknown) => ValidationError[],
+): ContractCheckResult {
+    const result: ContractCheckResult = { responseKey: null, mediaType: null, schemaChecked: false, issues: [] }
+
+    const responseKey = findResponseKey(responses, status)
+    if (!responseKey || !responses) {
+        result.issues.push({ kind: 'status', message: `Status ${status} is not documented for this operation` })
+        return result
+    }
+    result.responseKey = responseKey
+
+    const response = resolveResponse(responses[responseKey]!)
+    const content = response?.content
+    const hasBody = typeof body === 'string' ? body !== '' : body.size > 0
+    if (!content || Object.keys(content).length === 0) {
+        if (hasBody) {
+            result.issues.push({ kind: 'content-type', message: `The ${responseKey} response documents no body, but one was returned` })
+        }
+        return result
+    }
+
+    const mediaType = findMediaTypeKey(content, contentType)
+    if (!mediaType) {
+        if (hasBody) {
+            const documented = Object.keys(content).join(', ')
+            result.issues.push({ kind: 'content-type', message: `Content-Type ${contentType || '(none)'} is not documented for ${responseKey} (expected ${documented})` })
+        }
+        return result
+    }
+    result.mediaType = mediaType
+
+    const schema = content[mediaType]!.schema
+    // Only JSON bodies (read as text) are validated against their schema
+    if (!schema || !isJsonMediaType(mediaType) || typeof body !== 'string' || !hasBody) return result
+
+    result.schemaChecked = true
+    let value: unknown
+    try {
+        value = JSON.parse(body)
+    } catch {
+        result.issues.push({ kind: 'schema', pointer: '', keyword: 'json', message: 'is not valid JSON' })
+        return result
+    }
+    for (const error of validate(schema as SchemaOrRef, value)) {
+        result.issues.push({ kind: 'schema', pointer: error.pointer, keyword: error.keyword, message: error.message })
+    }
+    return result
+}
@@ -0,0 +1,277 @@
+// Request described by a pasted curl command
+export type ParsedCurlCommand = {
+    method: string
+    url: string
+    // In command-line order; names keep their original case
+    headers: [name: string, value: string][]
+    // `-d` / `--data-raw` / `--data-binary` values joined with `&`, as curl sends them
+    body: string | null
+    // `-u user:password`
+    user: { username: string; password: string } | null
+    // `--compressed` only asks for a compressed response, which the browser negotiates by itself
+    compressed: boolean
+    // Parts of the command that couldn't be imported
+    warnings: string[]
+}
+
+export type CurlEndpointMatch<T> = {
+    endpoint: T
+    // Values of the templated path segments, still percent-encoded
+    pathParams: Record<string, string>
+}
+
+// Options taking a value that are irrelevant to the request itself and skipped with it
+const SKIPPED_OPTIONS_WITH_VALUE = new Set([
+    '-o', '--output', '-m', '--max-time', '--connect-timeout', '-x', '--proxy', '-w', '--write-out', '-r', '--range',
+    '-c', '--cookie-jar', '--retry', '--retry-delay', '--cacert', '--capath', '-E', '--cert', '--key', '-K', '--config',
+    '--resolve', '--limit-rate', '--max-redirs', '--proxy-user', '-U', '--interface', '--dns-servers',
+])
+
+/**
+ * Splits a shell command into words, handling single quotes, double quotes, `$'…'` ANSI-C quoting
+ * (used by browser devtools) and backslash line continuations
+ */
+export function tokenizeShellCommand(input: string): string[] {
+    const tokens: string[] = []
+    let current = ''
+    let inToken = false
+    let i = 0
+
+    const ansiEscapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"', '0': '\0', a: '\x07', b: '\b', e: '\x1b', f: '\f', v: '\v' }
+
+    while (i < input.length) {
+        const char = input[i]!
+        if (char === '\\') {
+            const next = input[i + 1]
+            // Line continuation
+            if (next === '\n') {
+                i += 2
+                continue
+            }
+            if (next === '\r' && input[i + 2] === '\n') {
+                i += 3
+                continue
+            }
+            if (next !== undefined) current += next
+            inToken = true
+            i += 2
+        } else if (char === "'") {
+            const end = input.indexOf("'", i + 1)
+            if (end === -1) throw new Error('Unterminated single quote')
+            current += input.slice(i + 1, end)
+            inToken = true
+            i = end + 1
+        } else if (char === '$' && input[i + 1] === "'") {
+            i += 2
+            while (i < input.length && input[i] !== "'") {
+                if (input[i] === '\\' && i + 1 < input.length) {
+                    const escape = input[i + 1]!
+                    if (escape === 'x' || escape === 'u') {
+                        const digits = /^[0-9a-fA-F]+/.exec(input.slice(i + 2, i + 2 + (escape === 'x' ? 2 : 4)))?.[0] ?? ''
+                        current += digits ? String.fromCodePoint(parseInt(digits, 16)) : escape
+                        i += 2 + digits.length
+                    } else {
+                        current += ansiEscapes[escape] ?? `\\${escape}`
+                        i += 2
+                    }
+                } else {
+                    current += input[i]
+                    i++
+                }
+            }
+            if (i >= input.length) throw new Error('Unterminated $\'…\' quote')
+            inToken = true
+            i++
+        } else if (char === '"') {
+            i++
+            while (i < input.length && input[i] !== '"') {
+                // Inside double quotes a backslash only escapes $ ` " \ and newlines
+                if (input[i] === '\\' && i + 1 < input.length && '$`"\\\n'.includes(input[i + 1]!)) {
+                    if (input[i + 1] !== '\n') current += input[i + 1]
+                    i += 2
+                } else {
+                    current += input[i]
+                    i++
+                }
+            }
+            if (i >= input.length) throw new Error('Unterminated double quote')
+            inToken = true
+            i++
+        } else if (/\s/.test(char)) {
+            if (inToken) tokens.push(current)
+            current = ''
+            inToken = false
+            i++
+        } else {
+            current += char
+            inToken = true
+            i++
+        }
+    }
+    if (inToken) tokens.push(current)
+    return tokens
+}
+
+/**
+ * Parses a curl command: method, URL, headers, data, basic auth and `--compressed`
+ */
+export function parseCurlCommand(input: string): ParsedCurlCommand {
+    const tokens = tokenizeShellCommand(input.trim())
+    if (tokens[0] !== 'curl') throw new Error('Not a curl command: it should start with "curl"')
+
+    const result: ParsedCurlCommand = { method: '', url: '', headers: [], body: null, user: null, compressed: false, warnings: [] }
+    const data: string[] = []
+    let explicitMethod: string | null = null
+    let useGet = false
+    let head = false
+
+    for (let i = 1; i < tokens.length; i++) {
+        let token = tokens[i]!
+        let attached: string | null = null
+        // Short options may carry their value attached (`-XPOST`, `-H'Accept: */*'`)
+        if (/^-[XHdbuAe]./.test(token)) {
+            attached = token.slice(2)
+            token = token.slice(0, 2)
+        }
+        const takeValue = (): string => {
+            if (attached !== null) return attached
+            const value = tokens[++i]
+            if (value === undefined) throw new Error(`Missing value for ${token}`)
+            return value
+        }
+
+        switch (token) {
+            case '-X':
+            case '--request':
+                explicitMethod = takeValue().toUpperCase()
+                break
+            case '-H':
+            case '--header': {
+                const header = takeValue()
+                const colon = header.indexOf(':')
+                if (colon <= 0) {
+                    result.warnings.push(`Ignored malformed header "${header}"`)
+                } else {
+                    result.headers.push([header.slice(0, colon).trim(), header.slice(colon + 1).trim()])
+                }
+                break
+            }
+            case '-d':
+            case '--data':
+            case '--data-ascii':
+            case '--data-binary':
+            case '--data-raw': {
+                const value = takeValue()
+                if (token !== '--data-raw' && value.startsWith('@')) {
+                    result.warnings.push(`Can't read the body from file ${value.slice(1)}; add it in the body editor`)
+                } else {
+                    data.push(value)
+                }
+                break
+            }
+            case '--data-urlencode': {
+                const value = takeValue()
+                const equals = value.indexOf('=')
+                data.push(equals === -1 ? encodeURIComponent(value) : `${value.slice(0, equals)}=${encodeURIComponent(value.slice(equals + 1))}`)
+                break
+            }
+            case '-u':
+            case '--user': {
+                const value = takeValue()
+                const colon = value.indexOf(':')
+                result.user = colon === -1
+                    ? { username: value, password: '' }
+                    : { username: value.slice(0, colon), password: value.slice(colon + 1) }
+                break
+            }
+            case '-b':
+            case '--cookie':
+                result.headers.push(['Cookie', takeValue()])
+                break
+            case '-A':
+            case '--user-agent':
+                result.headers.push(['User-Agent', takeValue()])
+                break
+            case '-e':
+            case '--referer':
+                result.headers.push(['Referer', takeValue()])
+                break
+            case '--url':
+                result.url = takeValue()
+                break
+            case '--compressed':
+                result.compressed = true
+                break
+            case '-G':
+            case '--get':
+                useGet = true
+                break
+            case '-I':
+            case '--head':
+                head = true
+                break
+            case '-F':
+            case '--form':
+            case '--form-string':
+                takeValue()
+                result.warnings.push(`Multipart ${token} fields aren't imported; add them in the body editor`)
+                break
+            default:
+                if (SKIPPED_OPTIONS_WITH_VALUE.has(token)) {
+                    i++
+                } else if (!token.startsWith('-') && !result.url) {
+                    result.url = token
+                }
+                // Other flags (-s, -L, -k, -v, --http2, …) don't change the request
+        }
+    }
+
+    if (!result.url) throw new Error('No URL found in the curl command')
+
+    const joinedData = data.length > 0 ? data.join('&') : null
+    if (useGet && joinedData !== null) {
+        // -G sends the data as the query string
+        result.url += (result.url.includes('?') ? '&' : '?') + joinedData
+    } else {
+        result.body = joinedData
+    }
+    result.method = explicitMethod ?? (head ? 'HEAD' : result.body !== null ? 'POST' : 'GET')
+    return result
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Matches a request path against templated endpoint paths (`/pets/{petId}`). Literal paths win over
+ * templated ones, and among templated paths the one with the fewest parameters wins.
+ */
+export function matchEndpointPath<T extends { path: string; method: string }>(
+    endpoints: T[],
+    method: string,
+    requestPath: string,
+): CurlEndpointMatch<T> | null {
+    let best: { match: CurlEndpointMatch<T>; score: number } | null = null
+    const normalizedPath = requestPath.length > 1 ? requestPath.replace(/\/+$/, '') : requestPath
+
+    for (const endpoint of endpoints) {
+        if (endpoint.method.toUpperCase() !== method.toUpperCase()) continue
+
+        const names: string[] = []
+        const pattern = endpoint.path.replace(/\/+$/, '').split(/(\{[^}]+\})/).map(part => {
+            const name = /^\{([^}]+)\}$/.exec(part)?.[1]
+            if (!name) return escapeRegExp(part)
+            names.push(name)
+            return '([^/]+?)'
+        }).join('')
+        const match = new RegExp(`^${pattern || '/'}$`).exec(normalizedPath)
+        if (!match) continue
+
+        const pathParams = Object.fromEntries(names.map((name, index) => [name, match[index + 1]!]))
+        if (!best || names.length < best.score) {
+            best = { match: { endpoint, pathParams }, score: names.length }
+        }
+    }
+    return best?.match ?? null
+}
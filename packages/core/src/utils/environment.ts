@@ -0,0 +1,77 @@
+import type { Environment } from '@/utils/types'
+
+// `{{name}}`, with optional whitespace inside the braces
+const VARIABLE_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/g
+
+// Replaces environment variables in the values of a request
+export type VariableResolver = {
+    resolve: (text: string) => string
+    // Resolves every string in a parameter value (arrays and objects included)
+    resolveValue: <T>(value: T) => T
+    // Variables that were substituted, and the ones the environment doesn't define (left as `{{name}}`)
+    used: Set<string>
+    missing: Set<string>
+}
+
+/**
+ * Values of the enabled, named variables of an environment
+ */
+export function getEnvironmentValues(environment: Environment | null): Record<string, string> {
+    const values: Record<string, string> = {}
+    for (const variable of environment?.variables ?? []) {
+        if (variable.enabled && variable.name.trim()) values[variable.name.trim()] = variable.value
+    }
+    return values
+}
+
+/**
+ * Creates a resolver substituting `{{name}}` with the value of the variable. Substituted values are not
+ * resolved again, so a value containing `{{…}}` is sent as is.
+ */
+export function createVariableResolver(values: Record<string, string>): VariableResolver {
+    const used = new Set<string>()
+    const missing = new Set<string>()
+
+    const resolve = (text: string): string => text.replace(VARIABLE_PATTERN, (match, name: string) => {
+        if (!Object.prototype.hasOwnProperty.call(values, name)) {
+            missing.add(name)
+            return match
+        }
+        used.add(name)
+        return values[name]!
+    })
+
+    const resolveValue = <T>(value: T): T => {
+        if (typeof value === 'string') return resolve(value) as T
+        if (Array.isArray(value)) return value.map(resolveValue) as T
+        if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveValue(item)])) as T
+        }
+        return value
+    }
+
+    return { resolve, resolveValue, used, missing }
+}
+
+/**
+ * Values of the environment's secret variables, longest first so overlapping secrets are masked whole
+ */
+export function getSecretValues(environment: Environment | null): string[] {
+    return (environment?.variables ?? [])
+        .filter(variable => variable.secret && variable.value !== '')
+        .map(variable => variable.value)
+        .sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Masks every occurrence of the given secret values in a text, or in the strings of an array or object
+ */
+export function maskSecrets<T>(value: T, secrets: string[]): T {
+    if (secrets.length === 0) return value
+    if (typeof value === 'string') return secrets.reduce((masked, secret) => masked.split(secret).join('••••••'), value as string) as T
+    if (Array.isArray(value)) return value.map(item => maskSecrets(item, secrets)) as T
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskSecrets(item, secrets)])) as T
+    }
+    return value
+}
@@ -0,0 +1,678 @@
+import { escapeJsonPointerSegment } from '@/utils/ref-resolver'
+import { sampleFromPattern } from '@/utils/pattern-sampler'
+import {
+    getDeclaredExample,
+    getPrimaryType,
+    getSchemaVariants,
+    isOmittedInMode,
+    isReferenceObject,
+    type OpenApiDocument,
+    type SchemaObject,
+    type SchemaMode,
+    type SchemaOrRef,
+} from '@/utils/schema'
+
+export type ExampleGenerationOptions = {
+    // Maximum nesting depth before the generator stops descending
+    maxDepth?: number
+    // Seed for the random source; the same seed always produces the same example
+    seed?: number
+    // Selected oneOf/anyOf branch index per JSON pointer within the example ('' for the root)
+    variantSelections?: Record<string, number>
+    // 'request' drops readOnly properties, 'response' drops writeOnly ones; both are kept when unset
+    mode?: SchemaMode
+}
+
+export type ExampleGenerationResult = {
+    example: any
+    // True when a recursive schema or the depth limit cut the example short
+    truncated: boolean
+    // JSON pointers (within the example) where placeholders were emitted
+    truncatedAt: string[]
+    // Seed the example was generated with
+    seed: number
+}
+
+export type RandomSource = {
+    // Float in [0, 1)
+    next(): number
+    // Integer in [min, max]
+    int(min: number, max: number): number
+    pick<T>(items: readonly T[]): T
+}
+
+export type ValueGeneratorContext = {
+    // Resolved (non-$ref) schema of the value being generated
+    schema: SchemaObject
+    // Primary type: 'string', 'number', 'integer' or 'boolean'
+    type: string
+    // Name of the property holding the value, when it is an object property
+    propertyName?: string
+    // JSON pointer of the value within the example
+    pointer: string
+    random: RandomSource
+}
+
+/**
+ * Produces values for primitive schemas. Generators are tried in order; returning undefined
+ * defers to the next one, so plugins can override a single format or property name.
+ */
+export type ExampleValueGenerator = {
+    name: string
+    generate(context: ValueGeneratorContext): unknown
+}
+
+export type ExampleGenerator = {
+    generate(schema: SchemaOrRef | undefined, spec: OpenApiDocument, options?: ExampleGenerationOptions): ExampleGenerationResult
+}
+
+export type ExampleGeneratorOptions = {
+    resolveReference: <T = any>(ref: string, spec: OpenApiDocument) => T | null
+    // Custom generators, tried before the built-in ones
+    valueGenerators?: ExampleValueGenerator[]
+}
+
+export const DEFAULT_EXAMPLE_SEED = 1
+export const DEFAULT_EXAMPLE_MAX_DEPTH = 10
+
+const CIRCULAR_PLACEHOLDER_PREFIX = '[Circular → '
+const MAX_DEPTH_PLACEHOLDER = '[Max depth reached]'
+
+// Attempts at producing a distinct item for `uniqueItems` arrays before giving up
+const UNIQUE_ITEM_ATTEMPTS = 10
+
+function isTruncationPlaceholder(value: unknown): boolean {
+    return value === MAX_DEPTH_PLACEHOLDER || (typeof value === 'string' && value.startsWith(CIRCULAR_PLACEHOLDER_PREFIX))
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Returns a new random seed, e.g. for a "regenerate" action
+ */
+export function createExampleSeed(): number {
+    return Math.floor(Math.random() * 0x7fffffff) + 1
+}
+
+/**
+ * Deterministic random source (mulberry32)
+ */
+export function createRandomSource(seed: number): RandomSource {
+    let state = seed >>> 0
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+    return {
+        next,
+        int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+        pick: items => items[Math.floor(next() * items.length)]!,
+    }
+}
+
+// Sample data
+
+const FIRST_NAMES = ['Alice', 'Bob', 'Carmen', 'David', 'Elena', 'Farid', 'Grace', 'Hiro', 'Ines', 'Jonas', 'Keira', 'Liam']
+const LAST_NAMES = ['Anderson', 'Brooks', 'Chen', 'Dubois', 'Evans', 'Fischer', 'Garcia', 'Hansen', 'Ito', 'Kowalski', 'Novak', 'Okafor']
+const CITIES = ['Amsterdam', 'Berlin', 'Chicago', 'Lisbon', 'Melbourne', 'Osaka', 'Seoul', 'Toronto']
+const COUNTRIES = ['Australia', 'Canada', 'Germany', 'Japan', 'Netherlands', 'Portugal', 'South Korea', 'United States']
+const COUNTRY_CODES = ['AU', 'CA', 'DE', 'JP', 'NL', 'PT', 'KR', 'US']
+const STREETS = ['Main St', 'Oak Avenue', 'Maple Road', 'Harbor Lane', 'Park Boulevard', 'Elm Street']
+const COMPANIES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Labs', 'Stark Industries', 'Wayne Enterprises']
+const DOMAINS = ['example.com', 'example.org', 'example.net']
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'KRW']
+const LOCALES = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP', 'ko-KR']
+const TIMEZONES = ['UTC', 'Europe/Berlin', 'America/New_York', 'Asia/Seoul', 'Australia/Sydney']
+const WORDS = [
+    'lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do',
+    'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua',
+]
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ'
+const HEX = '0123456789abcdef'
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+// Generated timestamps fall between 2020-01-01 and 2026-01-01
+const DATE_RANGE_START = Date.UTC(2020, 0, 1)
+const DATE_RANGE_END = Date.UTC(2026, 0, 1)
+
+function randomChars(random: RandomSource, alphabet: string, length: number): string {
+    let output = ''
+    for (let i = 0; i < length; i++) output += alphabet[random.int(0, alphabet.length - 1)]
+    return output
+}
+
+function randomTimestamp(random: RandomSource): number {
+    // Whole seconds keep date-time examples readable
+    return Math.floor((DATE_RANGE_START + random.next() * (DATE_RANGE_END - DATE_RANGE_START)) / 1000) * 1000
+}
+
+function randomDateTime(random: RandomSource): string {
+    return new Date(randomTimestamp(random)).toISOString().replace('.000Z', 'Z')
+}
+
+function randomUuid(random: RandomSource): string {
+    const hex = randomChars(random, HEX, 32).split('')
+    hex[12] = '4'
+    hex[16] = HEX[8 + random.int(0, 3)]!
+    const value = hex.join('')
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`
+}
+
+function randomUlid(random: RandomSource): string {
+    let time = randomTimestamp(random)
+    let timePart = ''
+    for (let i = 0; i < 10; i++) {
+        timePart = CROCKFORD_BASE32[time % 32] + timePart
+        time = Math.floor(time / 32)
+    }
+    return timePart + randomChars(random, CROCKFORD_BASE32, 16)
+}
+
+function randomWords(random: RandomSource, count: number): string {
+    return Array.from({ length: count }, () => random.pick(WORDS)).join(' ')
+}
+
+function randomSentence(random: RandomSource): string {
+    const sentence = randomWords(random, random.int(4, 8))
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`
+}
+
+function randomFullName(random: RandomSource): string {
+    return `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`
+}
+
+function randomUsername(random: RandomSource): string {
+    return `${random.pick(FIRST_NAMES).toLowerCase()}.${random.pick(LAST_NAMES).toLowerCase()}`
+}
+
+function randomEmail(random: RandomSource): string {
+    return `${randomUsername(random)}@${random.pick(DOMAINS)}`
+}
+
+function randomUrl(random: RandomSource): string {
+    return `https://${random.pick(DOMAINS)}/${random.pick(WORDS)}/${random.int(1, 999)}`
+}
+
+function randomIpv6(random: RandomSource): string {
+    return `2001:db8:${Array.from({ length: 6 }, () => randomChars(random, HEX, 4).replace(/^0+(?=.)/, '')).join(':')}`
+}
+
+function withinLength(value: string, schema: SchemaObject): boolean {
+    return (schema.minLength === undefined || value.length >= schema.minLength)
+        && (schema.maxLength === undefined || value.length <= schema.maxLength)
+}
+
+function withinRange(value: number, schema: SchemaObject): boolean {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema
+    if (minimum !== undefined && (exclusiveMinimum === true ? value <= minimum : value < minimum)) return false
+    if (maximum !== undefined && (exclusiveMaximum === true ? value >= maximum : value > maximum)) return false
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) return false
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) return false
+    if (schema.multipleOf && Math.abs(value / schema.multipleOf - Math.round(value / schema.multipleOf)) > 1e-9) return false
+    return true
+}
+
+// Built-in value generators
+
+const STRING_FORMATS: Record<string, (random: RandomSource) => string> = {
+    'date': random => randomDateTime(random).slice(0, 10),
+    'date-time': randomDateTime,
+    'time': random => randomDateTime(random).slice(11),
+    'duration': random => `PT${random.int(1, 12)}H${random.int(0, 59)}M`,
+    'email': randomEmail,
+    'idn-email': randomEmail,
+    'hostname': random => `${random.pick(WORDS)}.${random.pick(DOMAINS)}`,
+    'idn-hostname': random => `${random.pick(WORDS)}.${random.pick(DOMAINS)}`,
+    'ipv4': random => `192.0.2.${random.int(1, 254)}`,
+    'ipv6': randomIpv6,
+    'uri': randomUrl,
+    'url': randomUrl,
+    'iri': randomUrl,
+    'uri-reference': random => `/${random.pick(WORDS)}/${random.int(1, 999)}`,
+    'iri-reference': random => `/${random.pick(WORDS)}/${random.int(1, 999)}`,
+    'uri-template': random => `https://${random.pick(DOMAINS)}/${random.pick(WORDS)}/{id}`,
+    'uuid': randomUuid,
+    'ulid': randomUlid,
+    'byte': random => btoa(randomWords(random, 3)),
+    'binary': random => randomWords(random, 3),
+    'password': random => `${randomChars(random, ALPHANUMERIC, 12)}!`,
+    'regex': () => '^[a-z]+$',
+    'json-pointer': random => `/${random.pick(WORDS)}/${random.int(0, 9)}`,
+    'relative-json-pointer': random => `${random.int(0, 3)}/${random.pick(WORDS)}`,
+    'phone': random => `+1-555-${random.int(100, 999)}-${random.int(1000, 9999)}`,
+}
+
+type NameRule = {
+    pattern: RegExp
+    types: string[]
+    generate: (random: RandomSource) => unknown
+}
+
+// Matched against the property name split into lower-case words (createdAt and created_at → "created at"),
+// so suffix rules only match whole words: `id` matches userId but not paid, `age` matches userAge but not page
+const NAME_RULES: NameRule[] = [
+    { pattern: /uuid|guid/, types: ['string'], generate: randomUuid },
+    { pattern: /\bulid\b|\bid$/, types: ['string'], generate: randomUlid },
+    { pattern: /\bid$/, types: ['integer'], generate: random => random.int(1, 10000) },
+    { pattern: /email/, types: ['string'], generate: randomEmail },
+    { pattern: /^(first|given) ?name$/, types: ['string'], generate: random => random.pick(FIRST_NAMES) },
+    { pattern: /^(last|family|sur) ?name$/, types: ['string'], generate: random => random.pick(LAST_NAMES) },
+    { pattern: /\b(user ?name|login|handle|nick ?name)\b/, types: ['string'], generate: randomUsername },
+    { pattern: /^((full|display|contact|author|owner) ?)?name$/, types: ['string'], generate: randomFullName },
+    { pattern: /phone|mobile|\bfax\b/, types: ['string'], generate: STRING_FORMATS.phone! },
+    { pattern: /avatar|image|photo|picture|thumbnail/, types: ['string'], generate: random => `https://${random.pick(DOMAINS)}/images/${random.int(1, 999)}.png` },
+    { pattern: /\b(url|uri|link)$|website|home ?page/, types: ['string'], generate: randomUrl },
+    { pattern: /\bcountry ?code/, types: ['string'], generate: random => random.pick(COUNTRY_CODES) },
+    { pattern: /\bcountry$/, types: ['string'], generate: random => random.pick(COUNTRIES) },
+    { pattern: /\b(city|town)\b/, types: ['string'], generate: random => random.pick(CITIES) },
+    { pattern: /\bzip|postal ?code|\bpost ?code/, types: ['string'], generate: random => String(random.int(10000, 99999)) },
+    { pattern: /street|\baddress( ?line)?( ?1)?$/, types: ['string'], generate: random => `${random.int(1, 999)} ${random.pick(STREETS)}` },
+    { pattern: /company|organization|organisation|employer/, types: ['string'], generate: random => random.pick(COMPANIES) },
+    { pattern: /\b(created|updated|deleted|modified|expires|expired|published|started|ended|completed)( ?(at|on|time))?$|timestamp|\bdate ?time\b/, types: ['string'], generate: randomDateTime },
+    { pattern: /\bdate$|birth ?day|\bdob$/, types: ['string'], generate: STRING_FORMATS.date! },
+    { pattern: /colou?r/, types: ['string'], generate: random => `#${randomChars(random, HEX, 6)}` },
+    { pattern: /currency/, types: ['string'], generate: random => random.pick(CURRENCIES) },
+    { pattern: /locale|language|^lang$/, types: ['string'], generate: random => random.pick(LOCALES) },
+    { pattern: /time ?zone|^tz$/, types: ['string'], generate: random => random.pick(TIMEZONES) },
+    { pattern: /slug/, types: ['string'], generate: random => randomWords(random, 3).replace(/ /g, '-') },
+    { pattern: /token|secret|api ?key|hash/, types: ['string'], generate: random => randomChars(random, HEX, 32) },
+    { pattern: /password/, types: ['string'], generate: STRING_FORMATS.password! },
+    { pattern: /^(title|subject|headline|label)$/, types: ['string'], generate: random => randomWords(random, 3).replace(/^./, c => c.toUpperCase()) },
+    { pattern: /description|summary|\bbio$|comment|\bnote|message|content|\bbody$|\btext$/, types: ['string'], generate: randomSentence },
+    { pattern: /\bage$/, types: ['integer', 'number'], generate: random => random.int(18, 80) },
+    { pattern: /\byear$/, types: ['integer'], generate: random => random.int(2000, 2025) },
+    { pattern: /price|amount|\bcost|total|balance|salary|\bfees?\b/, types: ['number'], generate: random => random.int(100, 50000) / 100 },
+    { pattern: /price|amount|\bcost|total|balance|salary|\bfees?\b/, types: ['integer'], generate: random => random.int(1, 500) },
+    { pattern: /quantity|\bcount|\bqty\b/, types: ['integer'], generate: random => random.int(1, 20) },
+    { pattern: /^lat(itude)?$/, types: ['number'], generate: random => Math.round((random.next() * 180 - 90) * 1e6) / 1e6 },
+    { pattern: /^(lng|lon|long|longitude)$/, types: ['number'], generate: random => Math.round((random.next() * 360 - 180) * 1e6) / 1e6 },
+    { pattern: /\bport$/, types: ['integer'], generate: random => random.int(1024, 65535) },
+    { pattern: /rating|score|stars/, types: ['integer', 'number'], generate: random => random.int(1, 5) },
+]
+
+// Splits camelCase, PascalCase, snake_case and kebab-case names into lower-case words joined by spaces
+function toNameWords(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .join(' ')
+}
+
+function isValidFor(value: unknown, context: ValueGeneratorContext): boolean {
+    if (typeof value === 'string') return withinLength(value, context.schema)
+    if (typeof value === 'number') return withinRange(value, context.schema)
+    return true
+}
+
+const patternGenerator: ExampleValueGenerator = {
+    name: 'pattern',
+    generate({ schema, type, random }) {
+        if (type !== 'string' || !schema.pattern) return undefined
+        for (let attempt = 0; attempt < UNIQUE_ITEM_ATTEMPTS; attempt++) {
+            const value = sampleFromPattern(schema.pattern, random.next)
+            if (value === null) return undefined
+            if (withinLength(value, schema)) return value
+        }
+        return undefined
+    },
+}
+
+const formatGenerator: ExampleValueGenerator = {
+    name: 'format',
+    generate({ schema, type, random }) {
+        if (type !== 'string' || !schema.format) return undefined
+        return STRING_FORMATS[schema.format]?.(random)
+    },
+}
+
+const propertyNameGenerator: ExampleValueGenerator = {
+    name: 'property-name',
+    generate(context) {
+        if (!context.propertyName) return undefined
+        const name = toNameWords(context.propertyName)
+        for (const rule of NAME_RULES) {
+            if (!rule.types.includes(context.type) || !rule.pattern.test(name)) continue
+            const value = rule.generate(context.random)
+            // Heuristics never override explicit constraints
+            if (isValidFor(value, context)) return value
+        }
+        return undefined
+    },
+}
+
+function generateString(schema: SchemaObject, random: RandomSource): string {
+    const minLength = schema.minLength ?? 0
+    const maxLength = schema.maxLength ?? Math.max(minLength, 24)
+    let value = randomWords(random, random.int(1, 3))
+    while (value.length < minLength) value += ` ${random.pick(WORDS)}`
+    value = value.slice(0, maxLength).trimEnd()
+    // Trimming a trailing space may drop below minLength again
+    while (value.length < minLength) value += randomChars(random, ALPHANUMERIC, 1)
+    return value
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+    return b === 0 ? a : greatestCommonDivisor(b, a % b)
+}
+
+// Lowest common multiple of `step` and 1; null when step has too many decimals to tell
+function smallestIntegerMultiple(step: number): number | null {
+    for (let scale = 1; scale <= 1e12; scale *= 10) {
+        const scaled = Number((step * scale).toPrecision(12))
+        if (Number.isInteger(scaled)) return scaled / greatestCommonDivisor(scaled, scale)
+    }
+    return null
+}
+
+// Value inside the bounds for when none of them satisfies multipleOf
+function fallbackInRange(low: number, high: number, lowExclusive: boolean, integer: boolean): number {
+    if (integer) {
+        const value = Math.ceil(low)
+        return lowExclusive && value <= low ? value + 1 : value
+    }
+    return lowExclusive ? (low + high) / 2 : low
+}
+
+function generateNumber(schema: SchemaObject, integer: boolean, random: RandomSource): number {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema
+    // 3.1 numeric exclusive bounds take part in the range; 3.0 booleans only flag minimum/maximum
+    let low = typeof exclusiveMinimum === 'number' ? exclusiveMinimum : minimum
+    let high = typeof exclusiveMaximum === 'number' ? exclusiveMaximum : maximum
+    const lowExclusive = typeof exclusiveMinimum === 'number' || exclusiveMinimum === true
+    const highExclusive = typeof exclusiveMaximum === 'number' || exclusiveMaximum === true
+
+    if (low === undefined && high === undefined) {
+        low = integer ? 1 : 0
+        high = 100
+    } else if (low === undefined) {
+        low = Math.min(integer ? 1 : 0, high! - 100)
+    } else if (high === undefined) {
+        high = low + 100
+    }
+
+    // Integers need a multiple of both multipleOf and 1, e.g. 5 for multipleOf 2.5
+    const step = integer ? smallestIntegerMultiple(multipleOf || 1) : multipleOf || 0
+    if (step === null) return fallbackInRange(low!, high!, lowExclusive, integer)
+    if (step > 0) {
+        let first = Math.ceil(low! / step)
+        let last = Math.floor(high! / step)
+        if (lowExclusive && first * step <= low!) first++
+        if (highExclusive && last * step >= high!) last--
+        // No multiple fits: still stay within the bounds
+        if (first > last) return fallbackInRange(low!, high!, lowExclusive, integer)
+        // Round away floating point noise from fractional multipleOf values
+        return Number((random.int(first, last) * step).toPrecision(12))
+    }
+
+    const value = Math.round((low! + random.next() * (high! - low!)) * 100) / 100
+    if (lowExclusive && value <= low!) return Math.min(low! + 0.01, (low! + high!) / 2)
+    if (highExclusive && value >= high!) return Math.max(high! - 0.01, (low! + high!) / 2)
+    return value
+}
+
+const constraintGenerator: ExampleValueGenerator = {
+    name: 'constraints',
+    generate({ schema, type, random }) {
+        switch (type) {
+            case 'string':
+                return generateString(schema, random)
+            case 'number':
+            case 'integer':
+                return generateNumber(schema, type === 'integer', random)
+            case 'boolean':
+                return random.next() < 0.5
+            default:
+                return undefined
+        }
+    },
+}
+
+/**
+ * Built-in generators in precedence order: pattern, format, property-name heuristics,
+ * then plain values within the schema's length / range constraints
+ */
+export const builtinValueGenerators: ExampleValueGenerator[] = [
+    patternGenerator,
+    formatGenerator,
+    propertyNameGenerator,
+    constraintGenerator,
+]
+
+type GenerationContext = {
+    spec: OpenApiDocument
+    maxDepth: number
+    random: RandomSource
+    variantSelections: Record<string, number>
+    mode: SchemaMode | undefined
+    refStack: string[]
+    truncatedAt: string[]
+}
+
+/**
+ * Creates an example generator.
+ * Values respect the schema's constraints (lengths, patterns, ranges, multipleOf, formats,
+ * uniqueItems), optional properties are included and realistic values are picked from property
+ * names. Output is deterministic for a given seed.
+ *
+ * Recursive schemas are cut off where a $ref repeats along the current branch or the nesting
+ * depth exceeds `maxDepth`; a placeholder is emitted there and the result is flagged as truncated.
+ */
+export function createExampleGenerator(options: ExampleGeneratorOptions): ExampleGenerator {
+    const valueGenerators = [...(options.valueGenerators ?? []), ...builtinValueGenerators]
+
+    function generatePrimitive(schema: SchemaObject, type: string, context: GenerationContext, pointer: string, propertyName?: string): unknown {
+        const valueContext: ValueGeneratorContext = { schema, type, propertyName, pointer, random: context.random }
+        for (const generator of valueGenerators) {
+            const value = generator.generate(valueContext)
+            if (value !== undefined) return value
+        }
+        return null
+    }
+
+    function generateArray(schema: SchemaObject, context: GenerationContext, depth: number, pointer: string): any[] {
+        // Tuples (prefixItems) produce one example per position
+        const tuple = Array.isArray(schema.prefixItems)
+            ? schema.prefixItems.map((item, i) => generateValue(item, context, depth + 1, `${pointer}/${i}`))
+            : []
+        const items = 'items' in schema && schema.items && typeof schema.items === 'object' ? schema.items as SchemaOrRef : undefined
+        if (!items) return tuple
+
+        const minItems = schema.minItems ?? 0
+        // Plain arrays get one item unless more are required; tuples only fill up to minItems
+        const count = Math.min(
+            Math.max(minItems, tuple.length > 0 ? tuple.length : 1),
+            schema.maxItems ?? Number.POSITIVE_INFINITY,
+        )
+        const seen = new Set(schema.uniqueItems ? tuple.map(value => JSON.stringify(value)) : [])
+
+        while (tuple.length < count) {
+            const index = tuple.length
+            const truncatedBefore = context.truncatedAt.length
+            let value = generateValue(items, context, depth + 1, `${pointer}/${index}`)
+
+            // Recursive item types (e.g. children: Node[]) end as an empty list when no items are required
+            if (context.truncatedAt.length > truncatedBefore && minItems === 0 && isTruncationPlaceholder(value)) {
+                // The placeholder isn't part of the output, so neither is its truncation
+                context.truncatedAt.length = truncatedBefore
+                return tuple
+            }
+
+            if (schema.uniqueItems) {
+                let attempts = 1
+                while (seen.has(JSON.stringify(value)) && attempts < UNIQUE_ITEM_ATTEMPTS) {
+                    value = generateValue(items, context, depth + 1, `${pointer}/${index}`)
+                    attempts++
+                }
+                // Small value spaces (booleans, short enums) cannot always fill minItems
+                if (seen.has(JSON.stringify(value))) break
+                seen.add(JSON.stringify(value))
+            }
+            tuple.push(value)
+        }
+        return tuple
+    }
+
+    function generateObject(schema: SchemaObject, context: GenerationContext, depth: number, pointer: string): Record<string, any> {
+        const obj: Record<string, any> = {}
+        const required = Array.isArray(schema.required) ? schema.required : []
+
+        for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+            const resolved = isReferenceObject(propSchema) ? options.resolveReference<SchemaObject>(propSchema.$ref, context.spec) : null
+            if (isOmittedInMode([propSchema as SchemaOrRef, resolved], context.mode)) continue
+
+            const propertyPointer = `${pointer}/${escapeJsonPointerSegment(key)}`
+            const truncatedBefore = context.truncatedAt.length
+            const value = generateValue(propSchema as SchemaOrRef, context, depth + 1, propertyPointer, key)
+
+            // Optional properties that would only recurse are left out instead of showing a placeholder
+            if (!required.includes(key) && isTruncationPlaceholder(value)) {
+                context.truncatedAt.length = truncatedBefore
+                continue
+            }
+            obj[key] = value
+        }
+
+        // Free-form maps get a sample entry
+        const additional = schema.additionalProperties
+        if (Object.keys(obj).length === 0 && additional && typeof additional === 'object') {
+            const key = 'additionalProp1'
+            obj[key] = generateValue(additional as SchemaOrRef, context, depth + 1, `${pointer}/${key}`, key)
+        }
+        return obj
+    }
+
+    function generateVariant(schema: SchemaObject, context: GenerationContext, depth: number, pointer: string, propertyName?: string): any {
+        const variants = getSchemaVariants(schema)
+        const variant = variants[context.variantSelections[pointer] ?? 0] ?? variants[0]!
+        let value = generateValue(variant.schema, context, depth, pointer, propertyName)
+        if (!isPlainObject(value)) return value
+
+        // Properties declared next to oneOf/anyOf apply to every branch
+        if (schema.properties) {
+            value = { ...generateObject(schema, context, depth, pointer), ...value }
+        }
+        const discriminatorProperty = 'discriminator' in schema ? schema.discriminator?.propertyName : undefined
+        if (discriminatorProperty && variant.discriminatorValue !== undefined) {
+            value[discriminatorProperty] = variant.discriminatorValue
+        }
+        return value
+    }
+
+    function generateValue(schema: SchemaOrRef | undefined, context: GenerationContext, depth: number, pointer: string, propertyName?: string): any {
+        if (!schema || typeof schema !== 'object') return null
+
+        // Handle references
+        if (isReferenceObject(schema)) {
+            const refName = schema.$ref.split('/').pop() || schema.$ref
+            // A ref already being expanded on this branch would recurse forever
+            if (context.refStack.includes(schema.$ref)) {
+                context.truncatedAt.push(pointer || '/')
+                return `${CIRCULAR_PLACEHOLDER_PREFIX}${refName}]`
+            }
+            const refValue = options.resolveReference<SchemaObject>(schema.$ref, context.spec)
+            if (!refValue || typeof refValue !== 'object') return null
+            context.refStack.push(schema.$ref)
+            try {
+                return generateValue(refValue, context, depth, pointer, propertyName)
+            } finally {
+                context.refStack.pop()
+            }
+        }
+
+        if (depth > context.maxDepth) {
+            context.truncatedAt.push(pointer || '/')
+            return MAX_DEPTH_PLACEHOLDER
+        }
+
+        // Handle const / example / examples if present
+        const declared = getDeclaredExample(schema)
+        if (declared.found) {
+            return declared.value
+        }
+
+        // Handle enum
+        if ('enum' in schema && schema.enum && schema.enum.length > 0) {
+            return context.random.pick(schema.enum)
+        }
+
+        // oneOf / anyOf: generate the selected branch (the first one by default)
+        if (getSchemaVariants(schema).length > 0) {
+            return generateVariant(schema, context, depth, pointer, propertyName)
+        }
+
+        // Handle different types - 3.1 type arrays use their first non-null type
+        const type = getPrimaryType(schema) || (schema.allOf ? 'allOf' : 'object')
+
+        switch (type) {
+            case 'null':
+                return null
+
+            case 'string':
+                if (schema.default !== undefined) return schema.default
+                // Encoded JSON documents carried in a string (contentMediaType + contentSchema)
+                if (schema.contentMediaType?.includes('json') && schema.contentSchema) {
+                    return JSON.stringify(generateValue(schema.contentSchema, context, depth + 1, pointer))
+                }
+                return generatePrimitive(schema, type, context, pointer, propertyName)
+
+            case 'number':
+            case 'integer':
+            case 'boolean':
+                if (schema.default !== undefined) return schema.default
+                return generatePrimitive(schema, type, context, pointer, propertyName)
+
+            case 'array':
+                return generateArray(schema, context, depth, pointer)
+
+            case 'object':
+                return generateObject(schema, context, depth, pointer)
+
+            case 'allOf':
+                if (schema.allOf) {
+                    const merged: Record<string, any> = {}
+                    for (const subSchema of schema.allOf) {
+                        const example = generateValue(subSchema as SchemaOrRef, context, depth, pointer)
+                        if (isPlainObject(example)) {
+                            Object.assign(merged, example)
+                        }
+                    }
+                    return merged
+                }
+                return {}
+
+            default:
+                return null
+        }
+    }
+
+    return {
+        generate(schema, spec, generationOptions = {}) {
+            const seed = generationOptions.seed ?? DEFAULT_EXAMPLE_SEED
+            const context: GenerationContext = {
+                spec,
+                maxDepth: generationOptions.maxDepth ?? DEFAULT_EXAMPLE_MAX_DEPTH,
+                random: createRandomSource(seed),
+                variantSelections: generationOptions.variantSelections ?? {},
+                mode: generationOptions.mode,
+                refStack: [],
+                truncatedAt: [],
+            }
+            const example = generateValue(schema, context, 0, '')
+            return {
+                example,
+                truncated: context.truncatedAt.length > 0,
+                truncatedAt: context.truncatedAt,
+                seed,
+            }
+        },
+    }
+}
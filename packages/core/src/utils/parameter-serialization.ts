@@ -0,0 +1,284 @@
+import type { OpenAPIV3 } from 'openapi-types'
+import { coerceStringValue, getPrimaryType, isReferenceObject, type SchemaObject, type SchemaOrRef, type SchemaResolver } from '@/utils/schema'
+
+// Editor value of a parameter: a string for primitives, items for arrays, properties for objects
+export type ParameterValue = string | string[] | Record<string, string>
+
+type ParameterLike = Pick<OpenAPIV3.ParameterObject, 'name' | 'in' | 'style' | 'explode' | 'allowReserved'>
+
+// Characters `allowReserved` lets through unencoded (RFC 3986 reserved set)
+const RESERVED_ESCAPES = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi
+
+/**
+ * Style of a parameter, defaulting per location as the spec does: form for query and cookie, simple for path and header
+ */
+export function getParameterStyle(param: ParameterLike): string {
+    if (param.style) return param.style
+    return param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple'
+}
+
+/**
+ * Whether a parameter is exploded; only form style explodes by default
+ */
+export function getParameterExplode(param: ParameterLike): boolean {
+    return param.explode ?? getParameterStyle(param) === 'form'
+}
+
+/**
+ * Kind of editor a parameter schema needs
+ */
+export function getParameterInputKind(schema: SchemaObject | null): 'array' | 'object' | 'primitive' {
+    const type = schema ? getPrimaryType(schema) : undefined
+    if (type === 'array') return 'array'
+    if (type === 'object' || (!type && schema?.properties)) return 'object'
+    return 'primitive'
+}
+
+/**
+ * Empty editor value for a parameter schema
+ */
+export function getEmptyParameterValue(schema: SchemaObject | null): ParameterValue {
+    switch (getParameterInputKind(schema)) {
+        case 'array': return []
+        case 'object': return {}
+        default: return ''
+    }
+}
+
+function toText(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Converts an example or default value into the editor value for a parameter schema
+ */
+export function toParameterValue(value: unknown, schema: SchemaObject | null): ParameterValue {
+    switch (getParameterInputKind(schema)) {
+        case 'array':
+            return Array.isArray(value) ? value.map(toText) : value === undefined || value === null ? [] : [toText(value)]
+        case 'object':
+            if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toText(item)]))
+        default:
+            return toText(value)
+    }
+}
+
+/**
+ * Whether a parameter has a value worth sending: empty strings, arrays and objects count as unset
+ */
+export function hasParameterValue(value: unknown): boolean {
+    if (value === '' || value === null || value === undefined) return false
+    if (Array.isArray(value)) return value.length > 0
+    if (typeof value === 'object') return Object.keys(value).length > 0
+    return true
+}
+
+/**
+ * Converts an editor value into the typed value its schema describes, for validation
+ */
+export function coerceParameterValue(value: ParameterValue, schema: SchemaObject | null, resolve: SchemaResolver): unknown {
+    const resolveOptional = (child: unknown): SchemaObject | null => {
+        if (!child || typeof child !== 'object') return null
+        return isReferenceObject(child) ? resolve(child) : child as SchemaObject
+    }
+
+    if (Array.isArray(value)) {
+        const items = schema && 'items' in schema ? resolveOptional(schema.items) : null
+        return value.map(item => coerceStringValue(item, items))
+    }
+    if (typeof value === 'object' && value !== null) {
+        const properties = (schema?.properties ?? {}) as Record<string, SchemaOrRef>
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+            const propertySchema = resolveOptional(properties[key] ?? schema?.additionalProperties)
+            return [key, coerceStringValue(item, propertySchema)]
+        }))
+    }
+    return coerceStringValue(value, schema)
+}
+
+function encode(value: string, allowReserved = false): string {
+    const encoded = encodeURIComponent(value)
+    return allowReserved ? encoded.replace(RESERVED_ESCAPES, decodeURIComponent) : encoded
+}
+
+function isObjectValue(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Serializes a query (or cookie) parameter into `name=value` pairs, already percent-encoded,
+ * following its `style` (form, spaceDelimited, pipeDelimited, deepObject) and `explode`
+ */
+export function serializeQueryParameter(param: ParameterLike, value: unknown): string[] {
+    const style = getParameterStyle(param)
+    const explode = getParameterExplode(param)
+    const enc = (text: unknown) => encode(toText(text), param.allowReserved)
+    const name = encode(param.name)
+
+    if (Array.isArray(value)) {
+        if (explode && style !== 'deepObject') {
+            return value.map(item => `${name}=${enc(item)}`)
+        }
+        const delimiter = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ','
+        return [`${name}=${value.map(enc).join(delimiter)}`]
+    }
+
+    if (isObjectValue(value)) {
+        const entries = Object.entries(value)
+        if (style === 'deepObject') {
+            return entries.map(([key, item]) => `${name}%5B${encode(key)}%5D=${enc(item)}`)
+        }
+        if (explode) {
+            return entries.map(([key, item]) => `${encode(key)}=${enc(item)}`)
+        }
+        const delimiter = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ','
+        return [`${name}=${entries.flatMap(([key, item]) => [encode(key), enc(item)]).join(delimiter)}`]
+    }
+
+    return [`${name}=${enc(value)}`]
+}
+
+/**
+ * Serializes a path parameter following its `style` (simple, label, matrix) and `explode`.
+ * The result replaces the whole `{name}` template, including the label / matrix prefix.
+ */
+export function serializePathParameter(param: ParameterLike, value: unknown): string {
+    const style = getParameterStyle(param)
+    const explode = getParameterExplode(param)
+    const enc = (text: unknown) => encode(toText(text))
+    const name = encode(param.name)
+
+    if (style === 'matrix') {
+        if (Array.isArray(value)) {
+            return explode
+                ? value.map(item => `;${name}=${enc(item)}`).join('')
+                : `;${name}=${value.map(enc).join(',')}`
+        }
+        if (isObjectValue(value)) {
+            const entries = Object.entries(value)
+            return explode
+                ? entries.map(([key, item]) => `;${encode(key)}=${enc(item)}`).join('')
+                : `;${name}=${entries.flatMap(([key, item]) => [encode(key), enc(item)]).join(',')}`
+        }
+        return `;${name}=${enc(value)}`
+    }
+
+    const prefix = style === 'label' ? '.' : ''
+    const separator = style === 'label' && explode ? '.' : ','
+    if (Array.isArray(value)) {
+        return prefix + value.map(enc).join(separator)
+    }
+    if (isObjectValue(value)) {
+        const entries = Object.entries(value)
+        return prefix + (explode
+            ? entries.map(([key, item]) => `${encode(key)}=${enc(item)}`).join(separator)
+            : entries.flatMap(([key, item]) => [encode(key), enc(item)]).join(','))
+    }
+    return prefix + enc(value)
+}
+
+/**
+ * Serializes a header parameter (always simple style, not percent-encoded)
+ */
+export function serializeHeaderParameter(param: ParameterLike, value: unknown): string {
+    if (Array.isArray(value)) return value.map(toText).join(',')
+    if (isObjectValue(value)) {
+        const entries = Object.entries(value)
+        return getParameterExplode(param)
+            ? entries.map(([key, item]) => `${key}=${toText(item)}`).join(',')
+            : entries.flatMap(([key, item]) => [key, toText(item)]).join(',')
+    }
+    return toText(value)
+}
+
+// Percent-decodes a path segment; unlike in query strings, `+` is a literal plus there
+function decodePathSegment(value: string): string {
+    try {
+        return decodeURIComponent(value)
+    } catch {
+        return value
+    }
+}
+
+// Splits a delimited list back into an editor value for the schema's input kind
+function parseDelimited(text: string, kind: 'array' | 'object' | 'primitive', explode: boolean, separator: string): ParameterValue {
+    if (kind === 'primitive') return text
+    const items = text === '' ? [] : text.split(separator)
+    if (kind === 'array') return items
+    if (explode) {
+        return Object.fromEntries(items.map(item => {
+            const equals = item.indexOf('=')
+            return equals === -1 ? [item, ''] : [item.slice(0, equals), item.slice(equals + 1)]
+        }))
+    }
+    const entries: [string, string][] = []
+    for (let i = 0; i < items.length; i += 2) {
+        entries.push([items[i]!, items[i + 1] ?? ''])
+    }
+    return Object.fromEntries(entries)
+}
+
+/**
+ * Reads a query parameter back out of a query string into its editor value, undoing `serializeQueryParameter`.
+ * Returns null when the parameter isn't in the query.
+ */
+export function parseQueryParameter(param: ParameterLike, query: URLSearchParams, schema: SchemaObject | null): ParameterValue | null {
+    const style = getParameterStyle(param)
+    const explode = getParameterExplode(param)
+    const kind = getParameterInputKind(schema)
+
+    if (kind === 'object' && style === 'deepObject') {
+        const prefix = `${param.name}[`
+        const entries = [...query.entries()]
+            .filter(([key]) => key.startsWith(prefix) && key.endsWith(']'))
+            .map(([key, value]) => [key.slice(prefix.length, -1), value])
+        return entries.length > 0 ? Object.fromEntries(entries) : null
+    }
+    if (kind === 'object' && explode) {
+        // Exploded form objects spread their properties into the query, so only declared properties are recognised
+        const names = Object.keys(schema?.properties ?? {})
+        const entries = names.filter(name => query.has(name)).map(name => [name, query.get(name)!])
+        return entries.length > 0 ? Object.fromEntries(entries) : null
+    }
+    if (!query.has(param.name)) return null
+    if (kind === 'array' && explode) return query.getAll(param.name)
+
+    const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ','
+    return parseDelimited(query.get(param.name)!, kind, false, separator)
+}
+
+/**
+ * Reads a path parameter back out of its (still percent-encoded) path segment, undoing `serializePathParameter`
+ */
+export function parsePathParameter(param: ParameterLike, segment: string, schema: SchemaObject | null): ParameterValue {
+    const style = getParameterStyle(param)
+    const explode = getParameterExplode(param)
+    const kind = getParameterInputKind(schema)
+    const decodeValue = (value: ParameterValue): ParameterValue => {
+        if (typeof value === 'string') return decodePathSegment(value)
+        if (Array.isArray(value)) return value.map(decodePathSegment)
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [decodePathSegment(key), decodePathSegment(item)]))
+    }
+
+    if (style === 'label') {
+        const text = segment.startsWith('.') ? segment.slice(1) : segment
+        return decodeValue(parseDelimited(text, kind, explode, explode ? '.' : ','))
+    }
+    if (style === 'matrix') {
+        const parts = segment.split(';').filter(Boolean)
+        if (kind === 'array' && explode) return parts.map(part => decodePathSegment(part.slice(part.indexOf('=') + 1)))
+        if (kind === 'object' && explode) return decodeValue(parseDelimited(parts.join(','), kind, true, ','))
+        const first = parts[0] ?? ''
+        return decodeValue(parseDelimited(first.slice(first.indexOf('=') + 1), kind, false, ','))
+    }
+    return decodeValue(parseDelimited(segment, kind, explode, ','))
+}
+
+/**
+ * Reads a header parameter value back into its editor value, undoing `serializeHeaderParameter`
+ */
+export function parseHeaderParameter(param: ParameterLike, value: string, schema: SchemaObject | null): ParameterValue {
+    return parseDelimited(value, getParameterInputKind(schema), getParameterExplode(param), ',')
+}
@@ -0,0 +1,248 @@
+/**
+ * Generates strings that match a regular expression `pattern`.
+ *
+ * Supports the subset of regex syntax used in API schemas: literals, escapes (\d \w \s and
+ * their negations), character classes and ranges, `.`, groups (capturing and `(?:`),
+ * alternation and the `* + ? {n} {n,} {n,m}` quantifiers. Anchors and word boundaries are
+ * ignored. Returns null for patterns it cannot parse (lookarounds, backreferences, ...).
+ */
+
+type Node =
+    | { kind: 'literal'; value: string }
+    | { kind: 'set'; chars: string[] }
+    | { kind: 'group'; alternatives: Node[][] }
+    | { kind: 'repeat'; node: Node; min: number; max: number }
+
+// Upper bound for unbounded quantifiers (*, +, {n,}) beyond their minimum
+const UNBOUNDED_EXTRA = 3
+// Most repetitions sampled for a bounded quantifier, unless its minimum is higher (`{0,100000}` repeats up to 64 times)
+const MAX_REPEAT = 64
+// Longest sample generated; patterns needing more (`a{100000}`, nested repeats) get no sample
+const MAX_SAMPLE_LENGTH = 1000
+
+const DIGITS = '0123456789'.split('')
+const LOWER = 'abcdefghijklmnopqrstuvwxyz'.split('')
+const UPPER = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('')
+const WORD = [...LOWER, ...UPPER, ...DIGITS, '_']
+const SPACE = [' ']
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i))
+
+class PatternSyntaxError extends Error {}
+
+class SampleTooLongError extends Error {}
+
+function escapeSet(char: string): string[] | null {
+    switch (char) {
+        case 'd': return DIGITS
+        case 'w': return WORD
+        case 's': return SPACE
+        case 'D': return PRINTABLE.filter(c => !DIGITS.includes(c))
+        case 'W': return PRINTABLE.filter(c => !WORD.includes(c))
+        case 'S': return PRINTABLE.filter(c => !SPACE.includes(c))
+        default: return null
+    }
+}
+
+function escapeLiteral(char: string): string {
+    switch (char) {
+        case 'n': return '\n'
+        case 't': return '\t'
+        case 'r': return '\r'
+        default: return char
+    }
+}
+
+class Parser {
+    private index = 0
+
+    constructor(private readonly pattern: string) {}
+
+    parse(): Node {
+        const node = this.parseAlternatives()
+        if (this.index < this.pattern.length) {
+            throw new PatternSyntaxError(`Unexpected "${this.pattern[this.index]}"`)
+        }
+        return node
+    }
+
+    private peek(): string | undefined {
+        return this.pattern[this.index]
+    }
+
+    private next(): string {
+        const char = this.pattern[this.index++]
+        if (char === undefined) throw new PatternSyntaxError('Unexpected end of pattern')
+        return char
+    }
+
+    private parseAlternatives(): Node {
+        const alternatives: Node[][] = [this.parseSequence()]
+        while (this.peek() === '|') {
+            this.index++
+            alternatives.push(this.parseSequence())
+        }
+        return { kind: 'group', alternatives }
+    }
+
+    private parseSequence(): Node[] {
+        const sequence: Node[] = []
+        while (this.index < this.pattern.length) {
+            const char = this.peek()
+            if (char === '|' || char === ')') break
+            const atom = this.parseAtom()
+            if (atom) sequence.push(this.parseQuantifier(atom))
+        }
+        return sequence
+    }
+
+    private parseAtom(): Node | null {
+        const char = this.next()
+        switch (char) {
+            case '^':
+            case '$':
+                return null
+            case '.':
+                return { kind: 'set', chars: WORD.filter(c => c !== '_') }
+            case '(': {
+                if (this.peek() === '?') {
+                    this.index++
+                    if (this.next() !== ':') {
+                        throw new PatternSyntaxError('Lookarounds and named groups are not supported')
+                    }
+                }
+                const group = this.parseAlternatives()
+                if (this.next() !== ')') throw new PatternSyntaxError('Unclosed group')
+                return group
+            }
+            case '[':
+                return this.parseClass()
+            case '\\': {
+                const escaped = this.next()
+                if (escaped === 'b' || escaped === 'B') return null
+                if (/[1-9]/.test(escaped)) throw new PatternSyntaxError('Backreferences are not supported')
+                const set = escapeSet(escaped)
+                return set ? { kind: 'set', chars: set } : { kind: 'literal', value: escapeLiteral(escaped) }
+            }
+            default:
+                return { kind: 'literal', value: char }
+        }
+    }
+
+    private parseClass(): Node {
+        let negated = false
+        if (this.peek() === '^') {
+            negated = true
+            this.index++
+        }
+
+        const chars = new Set<string>()
+        let first = true
+        while (this.peek() !== ']' || first) {
+            first = false
+            let char = this.next()
+            if (char === '\\') {
+                const escaped = this.next()
+                const set = escapeSet(escaped)
+                if (set) {
+                    set.forEach(c => chars.add(c))
+                    continue
+                }
+                char = escapeLiteral(escaped)
+            }
+            // Ranges such as a-z (a trailing '-' is a literal)
+            if (this.peek() === '-' && this.pattern[this.index + 1] !== ']' && this.pattern[this.index + 1] !== undefined) {
+                this.index++
+                let end = this.next()
+                if (end === '\\') end = escapeLiteral(this.next())
+                const from = char.charCodeAt(0)
+                const to = end.charCodeAt(0)
+                if (to < from) throw new PatternSyntaxError('Invalid range')
+                for (let code = from; code <= to; code++) {
+                    chars.add(String.fromCharCode(code))
+                }
+            } else {
+                chars.add(char)
+            }
+        }
+        this.index++ // Closing ]
+
+        const members = negated ? PRINTABLE.filter(c => !chars.has(c)) : Array.from(chars)
+        if (members.length === 0) throw new PatternSyntaxError('Empty character class')
+        return { kind: 'set', chars: members }
+    }
+
+    private parseQuantifier(node: Node): Node {
+        const char = this.peek()
+        let min: number
+        let max: number
+        if (char === '*') {
+            min = 0
+            max = UNBOUNDED_EXTRA
+            this.index++
+        } else if (char === '+') {
+            min = 1
+            max = 1 + UNBOUNDED_EXTRA
+            this.index++
+        } else if (char === '?') {
+            min = 0
+            max = 1
+            this.index++
+        } else if (char === '{') {
+            const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.index))
+            if (!match) return node
+            min = Number(match[1])
+            max = match[2] === undefined ? min : match[3] ? Math.min(Number(match[3]), Math.max(min, MAX_REPEAT)) : min + UNBOUNDED_EXTRA
+            this.index += match[0].length
+        } else {
+            return node
+        }
+        // Lazy / possessive modifiers don't change what matches
+        if (this.peek() === '?' || this.peek() === '+') this.index++
+        return { kind: 'repeat', node, min, max }
+    }
+}
+
+// `budget` holds the characters the sample may still grow by
+function render(node: Node, random: () => number, budget: { remaining: number }): string {
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]!
+    switch (node.kind) {
+        case 'literal':
+        case 'set': {
+            const value = node.kind === 'literal' ? node.value : pick(node.chars)
+            budget.remaining -= value.length
+            if (budget.remaining < 0) throw new SampleTooLongError()
+            return value
+        }
+        case 'group':
+            return pick(node.alternatives).map(child => render(child, random, budget)).join('')
+        case 'repeat': {
+            const count = node.min + Math.floor(random() * (node.max - node.min + 1))
+            let output = ''
+            for (let i = 0; i < count; i++) output += render(node.node, random, budget)
+            return output
+        }
+    }
+}
+
+/**
+ * Returns a random string matching `pattern`, or null if the pattern is unsupported
+ */
+export function sampleFromPattern(pattern: string, random: () => number = Math.random): string | null {
+    let sample: string
+    try {
+        sample = render(new Parser(pattern).parse(), random, { remaining: MAX_SAMPLE_LENGTH })
+    } catch {
+        return null
+    }
+
+    // Double-check against the real engine; unsupported syntax may have parsed loosely
+    try {
+        return new RegExp(pattern, 'u').test(sample) ? sample : null
+    } catch {
+        try {
+            return new RegExp(pattern).test(sample) ? sample : null
+        } catch {
+            return null
+        }
+    }
+}
@@ -0,0 +1,356 @@
+import { parseSpecText } from '@/utils/spec-format'
+
+// Components sections that external targets are bundled into
+const COMPONENT_SECTIONS = [
+    'schemas',
+    'responses',
+    'parameters',
+    'examples',
+    'requestBodies',
+    'headers',
+    'securitySchemes',
+    'links',
+    'callbacks',
+    'pathItems',
+] as const
+
+type ComponentSection = (typeof COMPONENT_SECTIONS)[number]
+
+// What a node of the document is, so a $ref found on it is bundled into the matching section.
+// `map:<section>` is a map or list whose entries are of that section (e.g. an operation's `parameters`).
+type RefContext =
+    | ComponentSection
+    | `map:${ComponentSection}`
+    | 'root'
+    | 'paths'
+    | 'components'
+    | 'operation'
+    | 'content'
+    | 'mediaType'
+    | 'encodings'
+    | 'encoding'
+    // Example, default and enum values: literal data, so a `$ref` key in them is not a reference
+    | 'data'
+    | 'other'
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+// Schema keywords holding values rather than schemas
+const SCHEMA_DATA_KEYS = ['example', 'examples', 'default', 'const', 'enum']
+// Schema keywords holding maps of schemas by name
+const SCHEMA_MAP_KEYS = ['properties', 'patternProperties', 'dependentSchemas', '$defs', 'definitions']
+
+/**
+ * Context of the value stored under `key` in a node of the given context
+ */
+function getChildContext(context: RefContext, key: string): RefContext {
+    if (context.startsWith('map:')) return context.slice(4) as ComponentSection
+    switch (context) {
+        case 'root':
+            if (key === 'paths' || key === 'webhooks') return 'paths'
+            return key === 'components' ? 'components' : 'other'
+        case 'paths':
+            return 'pathItems'
+        case 'components':
+            return (COMPONENT_SECTIONS as readonly string[]).includes(key) ? `map:${key as ComponentSection}` : 'other'
+        case 'pathItems':
+            if (key === 'parameters') return 'map:parameters'
+            return HTTP_METHODS.includes(key) ? 'operation' : 'other'
+        case 'operation':
+            if (key === 'parameters') return 'map:parameters'
+            if (key === 'requestBody') return 'requestBodies'
+            if (key === 'responses') return 'map:responses'
+            return key === 'callbacks' ? 'map:callbacks' : 'other'
+        case 'callbacks':
+            return 'pathItems'
+        case 'parameters':
+        case 'headers':
+            if (key === 'schema') return 'schemas'
+            if (key === 'content') return 'content'
+            if (key === 'example') return 'data'
+            return key === 'examples' ? 'map:examples' : 'other'
+        case 'requestBodies':
+            return key === 'content' ? 'content' : 'other'
+        case 'responses':
+            if (key === 'headers') return 'map:headers'
+            if (key === 'content') return 'content'
+            return key === 'links' ? 'map:links' : 'other'
+        case 'content':
+            return 'mediaType'
+        case 'mediaType':
+            if (key === 'schema') return 'schemas'
+            if (key === 'example') return 'data'
+            if (key === 'examples') return 'map:examples'
+            return key === 'encoding' ? 'encodings' : 'other'
+        case 'encodings':
+            return 'encoding'
+        case 'encoding':
+            return key === 'headers' ? 'map:headers' : 'other'
+        case 'examples':
+            return key === 'value' ? 'data' : 'other'
+        case 'schemas':
+            if (SCHEMA_DATA_KEYS.includes(key)) return 'data'
+            if (SCHEMA_MAP_KEYS.includes(key)) return 'map:schemas'
+            // Everything else below a schema (items, allOf, not, …) is a schema again
+            return 'schemas'
+        default:
+            return 'other'
+    }
+}
+
+export type FetchDocument = (url: string) => Promise<any>
+
+export interface BundleResult<T> {
+    // Copy of the root document with every external $ref inlined into `components`
+    document: T
+    // Absolute URLs of every external document that was requested
+    externalDocuments: string[]
+    // Refs that could not be resolved (left untouched in the bundled document)
+    warnings: string[]
+}
+
+/**
+ * Default document loader: fetches a JSON or YAML document
+ */
+export const fetchSpecDocument: FetchDocument = async (url: string) => {
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`)
+    }
+    return parseSpecText(await response.text(), response.headers.get('content-type'), url)
+}
+
+/**
+ * Decodes a JSON pointer fragment (without the leading '#') into its path segments
+ */
+export function parseJsonPointer(pointer: string): string[] {
+    let decoded = pointer
+    try {
+        decoded = decodeURIComponent(pointer)
+    } catch {
+        // Keep the raw pointer
+    }
+    if (decoded === '' || decoded === '/') return []
+    return decoded
+        .replace(/^\//, '')
+        .split('/')
+        .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Encodes a single path segment for use in a JSON pointer
+ */
+export function escapeJsonPointerSegment(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Walks a document along a JSON pointer; returns undefined when a segment is missing
+ */
+export function getByJsonPointer(document: any, pointer: string): any {
+    let value = document
+    for (const part of parseJsonPointer(pointer)) {
+        if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, part)) {
+            value = value[part]
+        } else {
+            return undefined
+        }
+    }
+    return value
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function splitRef(ref: string): { location: string; pointer: string } {
+    const hashIndex = ref.indexOf('#')
+    if (hashIndex < 0) return { location: ref, pointer: '' }
+    return { location: ref.slice(0, hashIndex), pointer: ref.slice(hashIndex + 1) }
+}
+
+function stripHash(url: string): string {
+    const hashIndex = url.indexOf('#')
+    return hashIndex < 0 ? url : url.slice(0, hashIndex)
+}
+
+/**
+ * Resolves a local ('#/...') reference against a document.
+ * Follows chains of references (a target that is itself a $ref) and returns null when the
+ * ref cannot be resolved or the chain loops back on itself.
+ */
+export function resolveLocalReference<T = any>(document: any, ref: string | { $ref: string }): T | null {
+    const seen = new Set<string>()
+    let current = typeof ref === 'string' ? ref : ref.$ref
+
+    while (true) {
+        if (seen.has(current)) {
+            console.warn(`Circular $ref chain detected at ${current}`)
+            return null
+        }
+        seen.add(current)
+
+        const { location, pointer } = splitRef(current)
+        if (location) {
+            // External refs are inlined during bundling; anything left here could not be loaded
+            return null
+        }
+
+        const value = getByJsonPointer(document, pointer)
+        if (value === undefined || value === null) return null
+
+        // Follow pure reference objects to their final target
+        if (typeof value === 'object' && typeof value.$ref === 'string' && Object.keys(value).length === 1) {
+            current = value.$ref
+            continue
+        }
+
+        return value as T
+    }
+}
+
+/**
+ * Bundles a multi-file spec into a single document.
+ *
+ * Every external or relative $ref (e.g. `./schemas/user.yaml#/User` or
+ * `https://example.com/common.json#/components/schemas/Error`) is fetched relative to the
+ * document that contains it, copied into the root document's `components`, and rewritten to a
+ * local ref. The section it is copied into follows from where the ref appears: a ref in an
+ * operation's `parameters` becomes a parameter, one under `paths` a path item, one in a `schema` a
+ * schema. Each external target is copied once, so refs that form cycles across files end up
+ * pointing at the same local component instead of recursing.
+ */
+export async function bundleDocument<T extends object>(
+    root: T,
+    rootUrl: string,
+    fetchDocument: FetchDocument = fetchSpecDocument,
+): Promise<BundleResult<T>> {
+    const bundled: Record<string, unknown> = JSON.parse(JSON.stringify(root))
+    const rootLocation = stripHash(rootUrl)
+
+    const documents = new Map<string, Promise<any>>()
+    const bundledRefs = new Map<string, string>()
+    const processed = new WeakSet<object>()
+    const warnings: string[] = []
+
+    const loadDocument = (url: string): Promise<any> => {
+        let pending = documents.get(url)
+        if (!pending) {
+            pending = fetchDocument(url)
+            documents.set(url, pending)
+        }
+        return pending
+    }
+
+    // Section named by the ref's position; the target pointer only decides where the position says nothing
+    const getSection = (context: RefContext, pointer: string): ComponentSection => {
+        if ((COMPONENT_SECTIONS as readonly string[]).includes(context)) {
+            return context as ComponentSection
+        }
+        const parts = parseJsonPointer(pointer)
+        const componentsIndex = parts.indexOf('components')
+        const section = componentsIndex >= 0 ? parts[componentsIndex + 1] : undefined
+        if (section && (COMPONENT_SECTIONS as readonly string[]).includes(section)) {
+            return section as ComponentSection
+        }
+        return 'schemas'
+    }
+
+    // Section of the bundled document's components, created when missing
+    const getComponentSection = (section: ComponentSection): Record<string, unknown> => {
+        if (!isObject(bundled.components)) bundled.components = {}
+        const components = bundled.components as Record<string, unknown>
+        if (!isObject(components[section])) components[section] = {}
+        return components[section] as Record<string, unknown>
+    }
+
+    const getComponentName = (section: ComponentSection, pointer: string, url: string): string => {
+        const parts = parseJsonPointer(pointer)
+        let baseName = parts[parts.length - 1]
+        if (!baseName) {
+            // Whole-document ref: name it after the file
+            const fileName = new URL(url).pathname.split('/').pop() || 'External'
+            baseName = fileName.replace(/\.(ya?ml|json)$/i, '') || 'External'
+        }
+        baseName = baseName.replace(/[^A-Za-z0-9._-]/g, '_')
+
+        const existing = getComponentSection(section)
+        let name = baseName
+        let suffix = 2
+        while (name in existing) {
+            name = `${baseName}_${suffix++}`
+        }
+        return name
+    }
+
+    const bundleRef = async (ref: string, documentUrl: string, context: RefContext): Promise<string | null> => {
+        const { location, pointer } = splitRef(ref)
+        let targetUrl: string
+        try {
+            targetUrl = location ? stripHash(new URL(location, documentUrl).href) : documentUrl
+        } catch {
+            warnings.push(`Invalid $ref "${ref}" in ${documentUrl}`)
+            return null
+        }
+
+        // Refs back into the root document become plain local refs
+        if (targetUrl === rootLocation) {
+            return `#${pointer}`
+        }
+
+        const section = getSection(context, pointer)
+        const key = `${section} ${targetUrl}#${pointer}`
+        const existingRef = bundledRefs.get(key)
+        if (existingRef) return existingRef
+
+        let document: any
+        try {
+            document = await loadDocument(targetUrl)
+        } catch (err) {
+            const reason = err instanceof Error ? err.message : String(err)
+            warnings.push(`Failed to load ${targetUrl} (${reason})`)
+            return null
+        }
+
+        const target = getByJsonPointer(document, pointer)
+        if (target === undefined) {
+            warnings.push(`Unresolved $ref "${ref}" in ${documentUrl}`)
+            return null
+        }
+
+        const name = getComponentName(section, pointer, targetUrl)
+        const localRef = `#/components/${section}/${escapeJsonPointerSegment(name)}`
+
+        // Register before walking the copy so cyclic refs resolve to this component
+        bundledRefs.set(key, localRef)
+        const copy = JSON.parse(JSON.stringify(target))
+        getComponentSection(section)[name] = copy
+        await rewriteRefs(copy, targetUrl, false, section)
+        return localRef
+    }
+
+    const rewriteRefs = async (node: unknown, documentUrl: string, isRoot: boolean, context: RefContext): Promise<void> => {
+        if (!node || typeof node !== 'object' || context === 'data' || processed.has(node)) return
+        processed.add(node)
+
+        if (isObject(node) && typeof node.$ref === 'string') {
+            const isLocal = node.$ref.startsWith('#')
+            if (!isRoot || !isLocal) {
+                const localRef = await bundleRef(node.$ref, documentUrl, context)
+                if (localRef) node.$ref = localRef
+            }
+        }
+
+        for (const [key, value] of Object.entries(node)) {
+            await rewriteRefs(value, documentUrl, isRoot, getChildContext(context, key))
+        }
+    }
+
+    await rewriteRefs(bundled, rootLocation, true, 'root')
+
+    return {
+        document: bundled as T,
+        externalDocuments: Array.from(documents.keys()),
+        warnings,
+    }
+}
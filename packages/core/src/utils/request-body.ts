@@ -0,0 +1,168 @@
+import { coerceStringValue, getPrimaryType, hasSchemaType, type SchemaObject, type SchemaOrRef, type SchemaResolver } from '@/utils/schema'
+
+export type RequestBodyKind = 'json' | 'multipart' | 'urlencoded' | 'text' | 'binary'
+
+// Field of a multipart or form-urlencoded body
+export type FormField = {
+    name: string
+    value: string
+    enabled: boolean
+    // File fields (multipart only) send `files` instead of `value`
+    isFile: boolean
+    files: File[]
+    // Whether the field accepts several files (array of binary strings)
+    multiple?: boolean
+}
+
+// What was sent for a form field, as kept in request history
+export type FormFieldSnapshot = {
+    name: string
+    value?: string
+    fileName?: string
+}
+
+// What was sent as a binary body, as kept in request history
+export type BinaryBodySnapshot = {
+    fileName: string
+    size: number
+    type: string
+}
+
+/**
+ * Maps a media type to the editor / encoding used for it
+ */
+export function getRequestBodyKind(contentType: string | null | undefined): RequestBodyKind {
+    const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase()
+    if (!type || type === 'application/json' || type.endsWith('+json')) return 'json'
+    if (type.startsWith('multipart/')) return 'multipart'
+    if (type === 'application/x-www-form-urlencoded') return 'urlencoded'
+    if (type.startsWith('text/') || /xml|yaml|graphql|javascript|csv/.test(type)) return 'text'
+    return 'binary'
+}
+
+/**
+ * Whether a schema describes file content: a binary / base64 string, or a 3.1 string with
+ * contentMediaType / contentEncoding
+ */
+export function isFileSchema(schema: SchemaObject): boolean {
+    if (!hasSchemaType(schema, 'string')) return false
+    return schema.format === 'binary' || schema.format === 'base64' || !!schema.contentMediaType || !!schema.contentEncoding
+}
+
+/**
+ * Converts a generated value into a form field value; objects and arrays are sent as JSON
+ */
+export function toFormValue(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Builds form fields from an object schema and a generated example of it.
+ * Properties whose schema describes a file become file fields when `allowFiles` is set.
+ */
+export function getFormFields(
+    schema: SchemaOrRef | null,
+    example: unknown,
+    resolve: SchemaResolver,
+    allowFiles: boolean,
+): FormField[] {
+    const resolved = schema ? resolve(schema) : null
+    const properties = resolved?.properties ?? {}
+    const values = example && typeof example === 'object' && !Array.isArray(example) ? example as Record<string, unknown> : {}
+
+    const names = new Set([...Object.keys(values), ...Object.keys(properties)])
+    return Array.from(names).map(name => {
+        const propertySchema = properties[name] ? resolve(properties[name] as SchemaOrRef) : null
+        let isFile = false
+        let multiple = false
+        if (allowFiles && propertySchema) {
+            if (isFileSchema(propertySchema)) {
+                isFile = true
+            } else if (getPrimaryType(propertySchema) === 'array' && 'items' in propertySchema && propertySchema.items) {
+                const items = resolve(propertySchema.items as SchemaOrRef)
+                isFile = multiple = !!items && isFileSchema(items)
+            }
+        }
+        return {
+            name,
+            value: isFile ? '' : toFormValue(values[name]),
+            enabled: true,
+            isFile,
+            files: [],
+            ...(multiple ? { multiple } : {}),
+        }
+    })
+}
+
+function activeFields(fields: FormField[]): FormField[] {
+    return fields.filter(field => field.enabled && field.name.trim() !== '')
+}
+
+export function encodeFormUrlEncoded(fields: FormField[]): string {
+    const params = new URLSearchParams()
+    for (const field of activeFields(fields)) {
+        params.append(field.name.trim(), field.value)
+    }
+    return params.toString()
+}
+
+export function buildMultipartBody(fields: FormField[]): FormData {
+    const formData = new FormData()
+    for (const field of activeFields(fields)) {
+        if (field.isFile) {
+            field.files.forEach(file => formData.append(field.name.trim(), file, file.name))
+        } else {
+            formData.append(field.name.trim(), field.value)
+        }
+    }
+    return formData
+}
+
+export function snapshotFormFields(fields: FormField[]): FormFieldSnapshot[] {
+    const snapshot: FormFieldSnapshot[] = []
+    for (const field of activeFields(fields)) {
+        if (field.isFile) {
+            field.files.forEach(file => snapshot.push({ name: field.name.trim(), fileName: file.name }))
+        } else {
+            snapshot.push({ name: field.name.trim(), value: field.value })
+        }
+    }
+    return snapshot
+}
+
+/**
+ * Rebuilds the object a form body stands for, so it can be validated against the body schema.
+ * Text values are converted to their property's type, files become their names, and repeated
+ * names collect into arrays.
+ */
+export function getFormFieldsValue(fields: FormField[], schema: SchemaOrRef | null, resolve: SchemaResolver): Record<string, unknown> {
+    const resolved = schema ? resolve(schema) : null
+    const properties = (resolved?.properties ?? {}) as Record<string, SchemaOrRef>
+    const value: Record<string, unknown> = {}
+
+    for (const field of activeFields(fields)) {
+        const name = field.name.trim()
+        const propertySchema = properties[name] ? resolve(properties[name]) : null
+        if (field.isFile) {
+            if (field.files.length === 0) continue
+            const names = field.files.map(file => file.name)
+            value[name] = field.multiple ? names : names[0]
+            continue
+        }
+
+        const item = coerceStringValue(field.value, propertySchema)
+        if (!(name in value)) {
+            value[name] = item
+        } else if (propertySchema && getPrimaryType(propertySchema) === 'array') {
+            value[name] = [...(value[name] as unknown[]), item]
+        } else {
+            value[name] = Array.isArray(value[name]) ? [...(value[name] as unknown[]), item] : [value[name], item]
+        }
+    }
+    return value
+}
+
+export function snapshotBinaryBody(file: File): BinaryBodySnapshot {
+    return { fileName: file.name, size: file.size, type: file.type }
+}
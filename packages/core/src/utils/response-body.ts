@@ -0,0 +1,170 @@
+// Renderer a response body is shown with, picked from its Content-Type
+export type ResponseViewKind = 'json' | 'image' | 'pdf' | 'html' | 'xml' | 'csv' | 'text' | 'binary'
+
+function getBaseType(contentType: string | null | undefined): string {
+    return (contentType ?? '').split(';')[0]!.trim().toLowerCase()
+}
+
+/**
+ * Maps a response Content-Type to the renderer used for it
+ */
+export function getResponseViewKind(contentType: string | null | undefined): ResponseViewKind {
+    const type = getBaseType(contentType)
+    if (!type) return 'text'
+    if (type === 'application/json' || type.endsWith('+json')) return 'json'
+    if (type.startsWith('image/')) return 'image'
+    if (type === 'application/pdf') return 'pdf'
+    if (type === 'text/html' || type === 'application/xhtml+xml') return 'html'
+    if (type === 'text/csv' || type === 'text/tab-separated-values') return 'csv'
+    if (type.endsWith('/xml') || type.endsWith('+xml')) return 'xml'
+    if (type.startsWith('text/') || /javascript|yaml|graphql|x-www-form-urlencoded|ndjson/.test(type)) return 'text'
+    return 'binary'
+}
+
+/**
+ * Whether a response body should be read as text; everything else (images, PDFs, archives) is kept as a Blob.
+ * SVG is an image but still text, so it is read as text and previewed from a Blob built on demand.
+ */
+export function isTextResponse(contentType: string | null | undefined): boolean {
+    const kind = getResponseViewKind(contentType)
+    return (kind !== 'image' && kind !== 'pdf' && kind !== 'binary') || getBaseType(contentType) === 'image/svg+xml'
+}
+
+/**
+ * File name for saving a response: the Content-Disposition filename when present, else one derived from the URL
+ */
+export function getResponseFileName(headers: Record<string, string> | undefined, url: string): string {
+    const disposition = Object.entries(headers ?? {}).find(([name]) => name.toLowerCase() === 'content-disposition')?.[1]
+    if (disposition) {
+        const encoded = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(disposition)
+        if (encoded) {
+            try {
+                return decodeURIComponent(encoded[1]!.trim())
+            } catch {
+                // Fall through to the plain filename
+            }
+        }
+        const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(disposition)
+        const name = (plain?.[1] ?? plain?.[2])?.trim()
+        if (name) return name
+    }
+    const lastSegment = url.split(/[?#]/)[0]!.split('/').filter(Boolean).pop()
+    return lastSegment ? decodeURIComponent(lastSegment) : 'response'
+}
+
+/**
+ * Human-readable byte size
+ */
+export function formatByteSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Pretty-prints an XML document with two-space indentation. Returns the input unchanged when it doesn't parse.
+ */
+export function formatXml(text: string): string {
+    if (typeof DOMParser === 'undefined') return text
+    const doc = new DOMParser().parseFromString(text, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) return text
+
+    const lines: string[] = []
+    const declaration = /^\s*(<\?xml[^>]*\?>)/.exec(text)?.[1]
+    if (declaration) lines.push(declaration)
+
+    const escapeText = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    const escapeAttribute = (value: string) => escapeText(value).replace(/"/g, '&quot;')
+
+    const write = (node: Node, depth: number) => {
+        const indent = '  '.repeat(depth)
+        switch (node.nodeType) {
+            case Node.ELEMENT_NODE: {
+                const element = node as Element
+                const attributes = Array.from(element.attributes).map(attr => ` ${attr.name}="${escapeAttribute(attr.value)}"`).join('')
+                const children = Array.from(element.childNodes).filter(child =>
+                    child.nodeType !== Node.TEXT_NODE || child.textContent!.trim() !== '')
+                if (children.length === 0) {
+                    lines.push(`${indent}<${element.tagName}${attributes}/>`)
+                } else if (children.length === 1 && children[0]!.nodeType === Node.TEXT_NODE) {
+                    lines.push(`${indent}<${element.tagName}${attributes}>${escapeText(children[0]!.textContent!.trim())}</${element.tagName}>`)
+                } else {
+                    lines.push(`${indent}<${element.tagName}${attributes}>`)
+                    children.forEach(child => write(child, depth + 1))
+                    lines.push(`${indent}</${element.tagName}>`)
+                }
+                break
+            }
+            case Node.TEXT_NODE:
+                lines.push(`${indent}${escapeText(node.textContent!.trim())}`)
+                break
+            case Node.CDATA_SECTION_NODE:
+                lines.push(`${indent}<![CDATA[${node.textContent}]]>`)
+                break
+            case Node.COMMENT_NODE:
+                lines.push(`${indent}<!--${node.textContent}-->`)
+                break
+            case Node.PROCESSING_INSTRUCTION_NODE:
+                lines.push(`${indent}<?${(node as ProcessingInstruction).target} ${node.textContent}?>`)
+                break
+        }
+    }
+    Array.from(doc.childNodes).forEach(child => write(child, 0))
+    return lines.join('\n')
+}
+
+/**
+ * Parses CSV (or TSV with a tab delimiter) into rows of cells, honouring quoted fields and escaped quotes
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]!
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                cell += char
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true
+        } else if (char === delimiter) {
+            row.push(cell)
+            cell = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(cell)
+            rows.push(row)
+            row = []
+            cell = ''
+        } else {
+            cell += char
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell)
+        rows.push(row)
+    }
+    return rows
+}
+
+/**
+ * Classic hex dump: offset, 16 bytes in hex and their printable ASCII
+ */
+export function formatHexDump(bytes: Uint8Array): string {
+    const lines: string[] = []
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const chunk = Array.from(bytes.subarray(offset, offset + 16))
+        const hex = chunk.map(byte => byte.toString(16).padStart(2, '0')).join(' ')
+        const ascii = chunk.map(byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('')
+        lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`)
+    }
+    return lines.join('\n')
+}
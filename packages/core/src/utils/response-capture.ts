@@ -0,0 +1,196 @@
+import { getByJsonPointer } from '@/utils/ref-resolver'
+
+// Part of the response a capture rule reads
+export type CaptureSource = 'body' | 'header' | 'status'
+
+// Saves a value of the response into an environment variable
+export type CaptureRule = {
+    variable: string
+    source: CaptureSource
+    // Body: JSONPath (`$.items[0]._id`) or JSON pointer (`/items/0/_id`); header: the header name; unused for status
+    expression: string
+    enabled: boolean
+}
+
+export type CaptureResult = {
+    variable: string
+    // Captured value, or null when the rule found nothing
+    value: string | null
+    error?: string
+}
+
+// Response as the rules see it; the body is parsed JSON, text (parsed when it is JSON) or a Blob
+export type CaptureResponse = {
+    status: number
+    headers: Record<string, string>
+    body: unknown
+}
+
+type JsonPathSegment =
+    | { type: 'key'; key: string }
+    | { type: 'index'; index: number }
+    | { type: 'wildcard' }
+    // `..name` picks `name` at any depth; without a key it yields the nodes themselves (`..*`, or `..[…]` with self)
+    | { type: 'descendants'; key: string | null; includeSelf: boolean }
+
+/**
+ * Parses the JSONPath subset used for captures: `$`, `.name`, `['name']`, `[0]` (negative indexes count from
+ * the end), `[*]` / `.*` and recursive descent (`..name`). Filters and slices are not supported.
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+    const segments: JsonPathSegment[] = []
+    if (!path.startsWith('$')) throw new Error('JSONPath must start with $')
+    let i = 1
+
+    const readName = (): string => {
+        const match = /^[^.[\]]+/.exec(path.slice(i))
+        if (!match) throw new Error(`Expected a property name at position ${i}`)
+        i += match[0].length
+        return match[0]
+    }
+
+    while (i < path.length) {
+        if (path.startsWith('..', i)) {
+            i += 2
+            if (path[i] === '*') {
+                i++
+                segments.push({ type: 'descendants', key: null, includeSelf: false })
+            } else if (path[i] === '[') {
+                segments.push({ type: 'descendants', key: null, includeSelf: true })
+            } else {
+                segments.push({ type: 'descendants', key: readName(), includeSelf: true })
+            }
+        } else if (path[i] === '.') {
+            i++
+            if (path[i] === '*') {
+                i++
+                segments.push({ type: 'wildcard' })
+            } else {
+                segments.push({ type: 'key', key: readName() })
+            }
+        } else if (path[i] === '[') {
+            const end = path.indexOf(']', i)
+            if (end === -1) throw new Error('Unterminated [ in JSONPath')
+            const inner = path.slice(i + 1, end).trim()
+            i = end + 1
+            if (inner === '*') {
+                segments.push({ type: 'wildcard' })
+            } else if (/^-?\d+$/.test(inner)) {
+                segments.push({ type: 'index', index: Number(inner) })
+            } else if (/^(['"]).*\1$/.test(inner)) {
+                segments.push({ type: 'key', key: inner.slice(1, -1) })
+            } else {
+                throw new Error(`Unsupported JSONPath selector [${inner}]`)
+            }
+        } else {
+            throw new Error(`Unexpected "${path[i]}" at position ${i} of the JSONPath`)
+        }
+    }
+    return segments
+}
+
+function childrenOf(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value
+    if (value && typeof value === 'object') return Object.values(value)
+    return []
+}
+
+function descendantsOf(value: unknown): unknown[] {
+    const result: unknown[] = [value]
+    for (const child of childrenOf(value)) result.push(...descendantsOf(child))
+    return result
+}
+
+/**
+ * Evaluates a JSONPath against a value and returns every match, in document order
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown[] {
+    let current: unknown[] = [value]
+    for (const segment of parseJsonPath(path.trim())) {
+        const next: unknown[] = []
+        for (const item of current) {
+            switch (segment.type) {
+                case 'key':
+                    if (item && typeof item === 'object' && !Array.isArray(item) && Object.prototype.hasOwnProperty.call(item, segment.key)) {
+                        next.push((item as Record<string, unknown>)[segment.key])
+                    }
+                    break
+                case 'index':
+                    if (Array.isArray(item)) {
+                        const index = segment.index < 0 ? item.length + segment.index : segment.index
+                        if (index >= 0 && index < item.length) next.push(item[index])
+                    }
+                    break
+                case 'wildcard':
+                    next.push(...childrenOf(item))
+                    break
+                case 'descendants':
+                    for (const descendant of descendantsOf(item)) {
+                        if (segment.key === null) {
+                            if (segment.includeSelf || descendant !== item) next.push(descendant)
+                        } else if (descendant && typeof descendant === 'object' && !Array.isArray(descendant) && Object.prototype.hasOwnProperty.call(descendant, segment.key)) {
+                            next.push((descendant as Record<string, unknown>)[segment.key])
+                        }
+                    }
+                    break
+            }
+        }
+        current = next
+    }
+    return current
+}
+
+/**
+ * Reads a value from a response body with a JSONPath (`$…`) or a JSON pointer (`/…`).
+ * Returns undefined when nothing matches; a JSONPath matching several values returns the first.
+ */
+export function extractBodyValue(body: unknown, expression: string): unknown {
+    const trimmed = expression.trim()
+    if (trimmed.startsWith('$')) return evaluateJsonPath(body, trimmed)[0]
+    if (trimmed === '' || trimmed.startsWith('/')) return getByJsonPointer(body, trimmed)
+    throw new Error('Use a JSONPath starting with $ or a JSON pointer starting with /')
+}
+
+function toVariableValue(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Runs the enabled capture rules against a response. Text bodies that are JSON are parsed first.
+ */
+export function runCaptureRules(rules: CaptureRule[], response: CaptureResponse): CaptureResult[] {
+    let body = response.body
+    if (typeof body === 'string') {
+        try {
+            body = JSON.parse(body)
+        } catch {
+            // Not JSON: only `/` (the whole body) can match
+        }
+    }
+
+    return rules
+        .filter(rule => rule.enabled && rule.variable.trim())
+        .map(rule => {
+            const variable = rule.variable.trim()
+            try {
+                let value: unknown
+                switch (rule.source) {
+                    case 'status':
+                        value = response.status
+                        break
+                    case 'header': {
+                        const name = rule.expression.trim().toLowerCase()
+                        value = Object.entries(response.headers).find(([key]) => key.toLowerCase() === name)?.[1]
+                        break
+                    }
+                    default:
+                        value = extractBodyValue(body, rule.expression)
+                }
+                return value === undefined
+                    ? { variable, value: null, error: 'No match in the response' }
+                    : { variable, value: toVariableValue(value) }
+            } catch (err) {
+                return { variable, value: null, error: err instanceof Error ? err.message : String(err) }
+            }
+        })
+}
@@ -0,0 +1,100 @@
+// Timing and size of a response, as shown in the response panel and kept in request history
+export type ResponseMetrics = {
+    // Milliseconds from sending the request until the body was fully read
+    duration: number
+    // Milliseconds until the response headers arrived
+    ttfb: number
+    // Size of the body after content decoding, in bytes
+    decodedSize: number
+    // Bytes on the wire (headers and encoded body), or the encoded body size; null when the browser doesn't expose it
+    transferSize: number | null
+    // Whether fetch followed one or more redirects, and the URL it ended up at
+    redirected: boolean
+    finalUrl: string
+}
+
+export type HistorySortOrder = 'newest' | 'fastest' | 'slowest'
+
+let resourceTimingBufferWatched = false
+
+/**
+ * Clears the Resource Timing buffer whenever it fills up. The browser stops recording entries once its buffer
+ * (about 250 entries) is full, which would quietly leave long sessions with the less accurate fallbacks;
+ * the entry that triggered the event is kept. Called once when the app starts.
+ */
+export function clearResourceTimingsWhenFull(): void {
+    if (resourceTimingBufferWatched) return
+    if (typeof performance === 'undefined' || typeof performance.addEventListener !== 'function') return
+    performance.addEventListener('resourcetimingbufferfull', () => performance.clearResourceTimings())
+    resourceTimingBufferWatched = true
+}
+
+/**
+ * Finds the Resource Timing entry of a request started at `startedAt` (a `performance.now()` value).
+ * Cross-origin responses without `Timing-Allow-Origin` expose zeroed sizes and sub-timings.
+ */
+function findResourceTiming(url: string, startedAt: number): PerformanceResourceTiming | null {
+    if (typeof performance === 'undefined' || typeof performance.getEntriesByName !== 'function') return null
+    const entries = performance.getEntriesByName(url, 'resource') as PerformanceResourceTiming[]
+    // The request may have been queued briefly, so allow a little slack before `startedAt`
+    return entries.filter(entry => entry.startTime >= startedAt - 5).pop() ?? null
+}
+
+/**
+ * Collects the metrics of a finished fetch. `startedAt`, `headersAt` and `finishedAt` are `performance.now()`
+ * values taken before fetch, when it resolved and after the body was read. Resource Timing refines TTFB and
+ * transfer size when the browser has an entry for the request.
+ */
+export function collectResponseMetrics(
+    res: Response,
+    body: string | Blob,
+    startedAt: number,
+    headersAt: number,
+    finishedAt: number,
+): ResponseMetrics {
+    const decodedSize = typeof body === 'string' ? new TextEncoder().encode(body).length : body.size
+    const timing = findResourceTiming(res.url, startedAt)
+
+    let ttfb = headersAt - startedAt
+    if (timing && timing.responseStart > 0) {
+        ttfb = timing.responseStart - timing.startTime
+    }
+
+    let transferSize: number | null = null
+    if (timing && timing.transferSize > 0) {
+        transferSize = timing.transferSize
+    } else if (timing && timing.encodedBodySize > 0) {
+        transferSize = timing.encodedBodySize
+    } else {
+        const contentLength = Number(res.headers.get('content-length'))
+        if (res.headers.has('content-length') && Number.isFinite(contentLength)) transferSize = contentLength
+    }
+
+    return {
+        duration: Math.round(finishedAt - startedAt),
+        ttfb: Math.round(ttfb),
+        decodedSize,
+        transferSize,
+        redirected: res.redirected,
+        finalUrl: res.url,
+    }
+}
+
+/**
+ * Formats a duration in milliseconds, switching to seconds from one second up
+ */
+export function formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`
+}
+
+/**
+ * Sorts history items by recency or by latency. Items without metrics (failed requests) go last when sorting by latency.
+ */
+export function sortByLatency<T extends { metrics: ResponseMetrics | null }>(items: T[], order: HistorySortOrder): T[] {
+    if (order === 'newest') return items
+    const direction = order === 'fastest' ? 1 : -1
+    return [...items].sort((a, b) => {
+        if (!a.metrics || !b.metrics) return (a.metrics ? 0 : 1) - (b.metrics ? 0 : 1)
+        return (a.metrics.duration - b.metrics.duration) * direction
+    })
+}
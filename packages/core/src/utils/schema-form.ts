@@ -0,0 +1,92 @@
+import { getPrimaryType, isReferenceObject, type SchemaObject, type SchemaOrRef, type SchemaResolver, type SchemaTypeFields } from '@/utils/schema'
+
+type WithAnySchemaType<T> = T extends unknown ? Omit<T, 'type'> & SchemaTypeFields : never
+
+// Schema a form is rendered from. allOf members merged into one can each bring a `type` (3.0 or 3.1 form),
+// so it isn't narrowed to one SchemaObject variant.
+export type FormSchema = WithAnySchemaType<SchemaObject>
+
+// Editor a form field is rendered with; 'json' is the raw fallback for schemas a form can't express
+export type FormFieldKind = 'object' | 'array' | 'enum' | 'boolean' | 'integer' | 'number' | 'date' | 'date-time' | 'time' | 'string' | 'json'
+
+/**
+ * Resolves a schema for form rendering, folding `allOf` members into a single object schema
+ */
+export function resolveFormSchema(schema: SchemaOrRef | null | undefined, resolve: SchemaResolver): FormSchema | null {
+    if (!schema) return null
+    const resolved = isReferenceObject(schema) ? resolve(schema) : schema
+    if (!resolved || !resolved.allOf) return resolved
+
+    const { allOf, ...rest } = resolved
+    const parts = (allOf as SchemaOrRef[])
+        .map(member => resolveFormSchema(member, resolve))
+        .filter((part): part is FormSchema => !!part)
+    const merged: FormSchema = {
+        ...rest,
+        // The first member with a type decides it when the schema itself has none
+        type: rest.type ?? parts.find(part => part.type)?.type,
+        properties: parts.reduce<Record<string, SchemaOrRef>>((properties, part) => ({ ...properties, ...part.properties }), { ...rest.properties }),
+        required: [...(rest.required ?? []), ...parts.flatMap(part => part.required ?? [])],
+        additionalProperties: rest.additionalProperties ?? parts.find(part => part.additionalProperties !== undefined)?.additionalProperties,
+    }
+    return merged
+}
+
+export function getFormFieldKind(schema: FormSchema | null): FormFieldKind {
+    if (!schema || schema.oneOf || schema.anyOf) return 'json'
+    if (schema.enum && schema.enum.length > 0) return 'enum'
+    if (schema.const !== undefined) return 'enum'
+
+    const type = getPrimaryType(schema) ?? (schema.properties ? 'object' : undefined)
+    switch (type) {
+        case 'object': return 'object'
+        case 'array': return 'array'
+        case 'boolean': return 'boolean'
+        case 'integer': return 'integer'
+        case 'number': return 'number'
+        case 'string':
+            if (schema.format === 'date' || schema.format === 'date-time' || schema.format === 'time') return schema.format
+            return 'string'
+        default: return 'json'
+    }
+}
+
+/**
+ * Value a newly added field or array item starts with
+ */
+export function getEmptyFormValue(schema: FormSchema | null): unknown {
+    if (schema?.default !== undefined) return structuredClone(schema.default)
+    switch (getFormFieldKind(schema)) {
+        case 'object': return {}
+        case 'array': return []
+        case 'enum': return schema!.enum?.[0] ?? schema!.const
+        case 'boolean': return false
+        case 'integer':
+        case 'number': return 0
+        case 'json': return null
+        default: return ''
+    }
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0')
+}
+
+/**
+ * Converts an RFC 3339 date-time into the local `YYYY-MM-DDTHH:mm` value a datetime-local input expects
+ */
+export function toDateTimeLocal(value: unknown): string {
+    if (typeof value !== 'string' || !value) return ''
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) return ''
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Converts a datetime-local input value back into an RFC 3339 (UTC) date-time
+ */
+export function fromDateTimeLocal(value: string): string | undefined {
+    if (!value) return undefined
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
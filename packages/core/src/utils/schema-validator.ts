@@ -0,0 +1,369 @@
+import { escapeJsonPointerSegment } from '@/utils/ref-resolver'
+import {
+    getSchemaTypes,
+    getSchemaVariants,
+    isNullable,
+    isOmittedInMode,
+    isReferenceObject,
+    type OpenApiDocument,
+    type SchemaMode,
+    type SchemaObject,
+    type SchemaOrRef,
+} from '@/utils/schema'
+
+export type ValidationError = {
+    // JSON pointer of the offending value ('' for the root)
+    pointer: string
+    // Schema keyword that failed, e.g. 'required', 'type', 'pattern'
+    keyword: string
+    message: string
+}
+
+export type SchemaValidationOptions = {
+    // Readonly properties aren't required in requests, writeOnly ones aren't required in responses
+    mode?: SchemaMode
+}
+
+export type SchemaValidator = {
+    validate(schema: SchemaOrRef | null | undefined, value: unknown, spec: OpenApiDocument, options?: SchemaValidationOptions): ValidationError[]
+}
+
+export type SchemaValidatorOptions = {
+    resolveReference: <T = any>(ref: string, spec: OpenApiDocument) => T | null
+}
+
+type ValidationContext = {
+    spec: OpenApiDocument
+    mode?: SchemaMode
+    errors: ValidationError[]
+    // `$ref@pointer` pairs being validated, so self-referencing schemas can't loop on the same value
+    activeRefs: Set<string>
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)?$/i
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const IPV4_PATTERN = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i
+const BYTE_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+
+function isValidDate(value: string): boolean {
+    const match = DATE_PATTERN.exec(value)
+    if (!match) return false
+    const [, year, month, day] = match.map(Number) as [number, number, number, number]
+    const date = new Date(Date.UTC(year, month - 1, day))
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+function isValidIpv6(value: string): boolean {
+    if (!value.includes(':')) return false
+    try {
+        new URL(`http://[${value}]`)
+        return true
+    } catch {
+        return false
+    }
+}
+
+// Checks for the formats this tool knows; unknown formats always pass
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+    date: isValidDate,
+    'date-time': value => {
+        const [date, time] = value.split(/[Tt ]/)
+        return !!date && !!time && isValidDate(date) && TIME_PATTERN.test(time) && /[zZ]|[+-]\d{2}:\d{2}$/.test(time)
+    },
+    time: value => TIME_PATTERN.test(value),
+    email: value => EMAIL_PATTERN.test(value),
+    uri: value => {
+        try {
+            new URL(value)
+            return true
+        } catch {
+            return false
+        }
+    },
+    uuid: value => UUID_PATTERN.test(value),
+    ipv4: value => IPV4_PATTERN.test(value),
+    ipv6: isValidIpv6,
+    hostname: value => HOSTNAME_PATTERN.test(value),
+    byte: value => value.length % 4 === 0 && BYTE_PATTERN.test(value),
+}
+
+// int64 has no range check: JSON numbers past 2^53 lose precision but are still valid int64 values
+const INTEGER_RANGES: Record<string, [number, number]> = {
+    int32: [-2147483648, 2147483647],
+}
+
+function getValueType(value: unknown): string {
+    if (value === null) return 'null'
+    if (Array.isArray(value)) return 'array'
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+    return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = getValueType(value)
+    return actual === type || (type === 'number' && actual === 'integer')
+}
+
+// JSON with sorted keys, so structurally equal values compare equal
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+        return `{${entries.join(',')}}`
+    }
+    return JSON.stringify(value) ?? 'undefined'
+}
+
+function describeValue(value: unknown): string {
+    return typeof value === 'string' ? `"${value}"` : canonicalJson(value)
+}
+
+function compilePattern(pattern: string): RegExp | null {
+    try {
+        return new RegExp(pattern, 'u')
+    } catch {
+        try {
+            return new RegExp(pattern)
+        } catch {
+            return null
+        }
+    }
+}
+
+/**
+ * Creates a validator for the JSON Schema subset OpenAPI uses: $ref, allOf / oneOf / anyOf / not,
+ * type (3.0 nullable and 3.1 type arrays), enum / const, string, number, array and object keywords
+ * and the common formats. oneOf is checked like anyOf, since overlapping variants are common in specs.
+ */
+export function createSchemaValidator(options: SchemaValidatorOptions): SchemaValidator {
+    const resolve = (schema: SchemaOrRef, context: ValidationContext): SchemaObject | null => {
+        return isReferenceObject(schema) ? options.resolveReference<SchemaObject>(schema.$ref, context.spec) : schema
+    }
+
+    const addError = (context: ValidationContext, pointer: string, keyword: string, message: string) => {
+        context.errors.push({ pointer, keyword, message })
+    }
+
+    const validateVariants = (schema: SchemaObject, branches: SchemaOrRef[], value: unknown, pointer: string, context: ValidationContext) => {
+        // A discriminator tag that names a branch decides which branch the value must match
+        const discriminator = schema.discriminator
+        if (discriminator && value && typeof value === 'object' && !Array.isArray(value)) {
+            const tag = (value as Record<string, unknown>)[discriminator.propertyName]
+            const variant = getSchemaVariants(schema).find(v => v.discriminatorValue === tag)
+            if (variant) {
+                visit(variant.schema, value, pointer, context)
+                return
+            }
+        }
+
+        const results = branches.map(branch => {
+            const branchContext: ValidationContext = { ...context, errors: [] }
+            visit(branch, value, pointer, branchContext)
+            return branchContext.errors
+        })
+        if (results.some(errors => errors.length === 0)) return
+
+        // With a single branch its own errors are more useful than a summary
+        if (results.length === 1) {
+            context.errors.push(...results[0]!)
+            return
+        }
+        const keyword = schema.oneOf?.length ? 'oneOf' : 'anyOf'
+        addError(context, pointer, keyword, `must match one of the ${results.length} ${keyword} variants`)
+    }
+
+    const validateString = (schema: SchemaObject, value: string, pointer: string, context: ValidationContext) => {
+        const length = [...value].length
+        if (schema.minLength !== undefined && length < schema.minLength) {
+            addError(context, pointer, 'minLength', `must be at least ${schema.minLength} characters`)
+        }
+        if (schema.maxLength !== undefined && length > schema.maxLength) {
+            addError(context, pointer, 'maxLength', `must be at most ${schema.maxLength} characters`)
+        }
+        if (schema.pattern) {
+            const regex = compilePattern(schema.pattern)
+            if (regex && !regex.test(value)) {
+                addError(context, pointer, 'pattern', `must match pattern ${schema.pattern}`)
+            }
+        }
+        const check = schema.format ? FORMAT_CHECKS[schema.format] : undefined
+        if (check && !check(value)) {
+            addError(context, pointer, 'format', `must be a valid ${schema.format}`)
+        }
+    }
+
+    const validateNumber = (schema: SchemaObject, value: number, pointer: string, context: ValidationContext) => {
+        const exclusiveMinimum = schema.exclusiveMinimum as boolean | number | undefined
+        const exclusiveMaximum = schema.exclusiveMaximum as boolean | number | undefined
+
+        if (schema.minimum !== undefined) {
+            if (exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) {
+                addError(context, pointer, 'minimum', `must be ${exclusiveMinimum === true ? '>' : '>='} ${schema.minimum}`)
+            }
+        }
+        if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+            addError(context, pointer, 'exclusiveMinimum', `must be > ${exclusiveMinimum}`)
+        }
+        if (schema.maximum !== undefined) {
+            if (exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) {
+                addError(context, pointer, 'maximum', `must be ${exclusiveMaximum === true ? '<' : '<='} ${schema.maximum}`)
+            }
+        }
+        if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+            addError(context, pointer, 'exclusiveMaximum', `must be < ${exclusiveMaximum}`)
+        }
+        if (schema.multipleOf) {
+            const quotient = value / schema.multipleOf
+            if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+                addError(context, pointer, 'multipleOf', `must be a multiple of ${schema.multipleOf}`)
+            }
+        }
+        const range = schema.format ? INTEGER_RANGES[schema.format] : undefined
+        if (range && (value < range[0] || value > range[1])) {
+            addError(context, pointer, 'format', `must fit in ${schema.format}`)
+        }
+    }
+
+    const validateArray = (schema: SchemaObject, value: unknown[], pointer: string, context: ValidationContext) => {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            addError(context, pointer, 'minItems', `must have at least ${schema.minItems} items`)
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            addError(context, pointer, 'maxItems', `must have at most ${schema.maxItems} items`)
+        }
+        if (schema.uniqueItems) {
+            const seen = new Set<string>()
+            value.forEach((item, index) => {
+                const key = canonicalJson(item)
+                if (seen.has(key)) {
+                    addError(context, `${pointer}/${index}`, 'uniqueItems', 'duplicates an earlier item')
+                }
+                seen.add(key)
+            })
+        }
+
+        const prefixItems = schema.prefixItems ?? []
+        const items = 'items' in schema ? schema.items as SchemaOrRef | boolean | undefined : undefined
+        value.forEach((item, index) => {
+            const itemPointer = `${pointer}/${index}`
+            if (index < prefixItems.length) {
+                visit(prefixItems[index]!, item, itemPointer, context)
+            } else if (items === false) {
+                addError(context, itemPointer, 'items', 'is not allowed')
+            } else if (items && typeof items === 'object') {
+                visit(items, item, itemPointer, context)
+            }
+        })
+    }
+
+    const validateObject = (schema: SchemaObject, value: Record<string, unknown>, pointer: string, context: ValidationContext) => {
+        const properties = (schema.properties ?? {}) as Record<string, SchemaOrRef>
+
+        for (const name of schema.required ?? []) {
+            if (name in value) continue
+            const propertySchema = properties[name]
+            if (propertySchema && isOmittedInMode([propertySchema, resolve(propertySchema, context)], context.mode)) continue
+            addError(context, `${pointer}/${escapeJsonPointerSegment(name)}`, 'required', 'is required')
+        }
+
+        const keys = Object.keys(value)
+        if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+            addError(context, pointer, 'minProperties', `must have at least ${schema.minProperties} properties`)
+        }
+        if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+            addError(context, pointer, 'maxProperties', `must have at most ${schema.maxProperties} properties`)
+        }
+
+        const additional = schema.additionalProperties as SchemaOrRef | boolean | undefined
+        for (const key of keys) {
+            const propertyPointer = `${pointer}/${escapeJsonPointerSegment(key)}`
+            if (properties[key]) {
+                visit(properties[key], value[key], propertyPointer, context)
+            } else if (additional === false) {
+                addError(context, propertyPointer, 'additionalProperties', 'is not a declared property')
+            } else if (additional && typeof additional === 'object') {
+                visit(additional, value[key], propertyPointer, context)
+            }
+        }
+    }
+
+    const visit = (schema: SchemaOrRef | boolean | null | undefined, value: unknown, pointer: string, context: ValidationContext) => {
+        if (schema === undefined || schema === null || schema === true) return
+        if (schema === false) {
+            addError(context, pointer, 'false', 'is not allowed')
+            return
+        }
+
+        if (isReferenceObject(schema)) {
+            const key = `${schema.$ref}@${pointer}`
+            if (context.activeRefs.has(key)) return
+            const resolved = options.resolveReference<SchemaObject>(schema.$ref, context.spec)
+            if (!resolved || typeof resolved !== 'object') return
+            context.activeRefs.add(key)
+            try {
+                visit(resolved, value, pointer, context)
+            } finally {
+                context.activeRefs.delete(key)
+            }
+            return
+        }
+        // A nullable schema accepts null whatever its composition keywords or referenced members say
+        if (value === null && isNullable(schema)) return
+
+        for (const member of (schema.allOf ?? []) as SchemaOrRef[]) {
+            visit(member, value, pointer, context)
+        }
+        const branches = (schema.oneOf?.length ? schema.oneOf : schema.anyOf) as SchemaOrRef[] | undefined
+        if (branches && branches.length > 0) {
+            validateVariants(schema, branches, value, pointer, context)
+        }
+        if (schema.not) {
+            const notContext: ValidationContext = { ...context, errors: [] }
+            visit(schema.not as SchemaOrRef, value, pointer, notContext)
+            if (notContext.errors.length === 0) {
+                addError(context, pointer, 'not', 'must not match the excluded schema')
+            }
+        }
+
+        const types = getSchemaTypes(schema)
+        if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+            addError(context, pointer, 'type', `must be ${types.join(' or ')}, got ${getValueType(value)}`)
+            return
+        }
+
+        if (schema.const !== undefined && canonicalJson(schema.const) !== canonicalJson(value)) {
+            addError(context, pointer, 'const', `must be ${describeValue(schema.const)}`)
+        }
+        if (schema.enum && !schema.enum.some(option => canonicalJson(option) === canonicalJson(value))) {
+            addError(context, pointer, 'enum', `must be one of ${schema.enum.map(describeValue).join(', ')}`)
+        }
+
+        if (typeof value === 'string') {
+            validateString(schema, value, pointer, context)
+        } else if (typeof value === 'number') {
+            validateNumber(schema, value, pointer, context)
+        } else if (Array.isArray(value)) {
+            validateArray(schema, value, pointer, context)
+        } else if (value && typeof value === 'object') {
+            validateObject(schema, value as Record<string, unknown>, pointer, context)
+        }
+    }
+
+    return {
+        validate(schema, value, spec, validationOptions = {}) {
+            const context: ValidationContext = { spec, mode: validationOptions.mode, errors: [], activeRefs: new Set() }
+            visit(schema, value, '', context)
+            return context.errors
+        },
+    }
+}
+
+/**
+ * Formats a JSON pointer for display, using `/` for the root
+ */
+export function formatPointer(pointer: string): string {
+    return pointer || '/'
+}
@@ -0,0 +1,283 @@
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types'
+import { escapeJsonPointerSegment } from '@/utils/ref-resolver'
+
+/**
+ * JSON Schema 2020-12 keywords that OpenAPI 3.1 schemas may use but the openapi-types typings omit
+ */
+export interface JsonSchema2020Keywords {
+    const?: any
+    examples?: any[]
+    $defs?: Record<string, SchemaOrRef>
+    prefixItems?: SchemaOrRef[]
+    contentMediaType?: string
+    contentEncoding?: string
+    contentSchema?: SchemaOrRef
+}
+
+export type ReferenceObject = OpenAPIV3.ReferenceObject
+
+// Schema object from either an OpenAPI 3.0 or 3.1 document
+export type SchemaObject = (OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject) & JsonSchema2020Keywords
+
+export type SchemaOrRef = SchemaObject | ReferenceObject
+
+// Fields that decide which types a schema allows; `type` in any of its 3.0 and 3.1 forms
+export type SchemaTypeFields = {
+    type?: SchemaObject['type']
+    nullable?: boolean
+}
+
+// Resolves a schema's $ref (returning inline schemas as they are)
+export type SchemaResolver = (schema: SchemaOrRef) => SchemaObject | null
+
+// Document with the 3.1 additions (webhooks) made optional so 3.0 and 3.1 share one type
+export type OpenApiDocument = OpenAPIV3.Document & {
+    webhooks?: Record<string, OpenAPIV3.PathItemObject | OpenAPIV3.ReferenceObject>
+    jsonSchemaDialect?: string
+}
+
+/**
+ * Checks whether a document declares OpenAPI 3.1 or later
+ */
+export function isOpenApi31(document: { openapi?: string } | null | undefined): boolean {
+    const version = document?.openapi
+    if (!version) return false
+    const [major, minor] = version.split('.').map(Number)
+    return (major ?? 0) > 3 || (major === 3 && (minor ?? 0) >= 1)
+}
+
+export function isReferenceObject(schema: unknown): schema is ReferenceObject {
+    return !!schema && typeof schema === 'object' && typeof (schema as ReferenceObject).$ref === 'string'
+}
+
+/**
+ * Returns every type a schema allows, normalising 3.1 type arrays and 3.0 `nullable`
+ */
+export function getSchemaTypes(schema: SchemaTypeFields): string[] {
+    const rawType = schema.type
+    const types: string[] = Array.isArray(rawType) ? [...rawType] : rawType ? [rawType] : []
+    if (schema.nullable === true && !types.includes('null')) {
+        types.push('null')
+    }
+    return types
+}
+
+/**
+ * Returns the first non-null type of a schema, or 'null' when null is the only allowed type
+ */
+export function getPrimaryType(schema: SchemaTypeFields): string | undefined {
+    const types = getSchemaTypes(schema)
+    return types.find(type => type !== 'null') ?? types[0]
+}
+
+export function hasSchemaType(schema: SchemaObject, type: string): boolean {
+    return getSchemaTypes(schema).includes(type)
+}
+
+export function isNullable(schema: SchemaObject): boolean {
+    return hasSchemaType(schema, 'null')
+}
+
+/**
+ * Returns the first example declared on a schema: `const`, `example` (3.0) or `examples` (3.1)
+ */
+export function getDeclaredExample(schema: SchemaObject): { found: boolean; value?: any } {
+    if ('const' in schema && schema.const !== undefined) {
+        return { found: true, value: schema.const }
+    }
+    if ('example' in schema && schema.example !== undefined) {
+        return { found: true, value: schema.example }
+    }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+        return { found: true, value: schema.examples[0] }
+    }
+    return { found: false }
+}
+
+/**
+ * Rewrites `#/$defs/...` refs inside component schemas to absolute pointers
+ * (`#/components/schemas/Pet/$defs/Tag`). In JSON Schema 2020-12 such refs are relative to the
+ * enclosing schema resource: the component itself, or the nearest subschema with its own `$id`.
+ * Refs whose target doesn't exist there are left as they are. Mutates the document.
+ */
+export function anchorEmbeddedDefinitionRefs(document: OpenApiDocument): void {
+    const visit = (node: unknown, pointer: string, resource: any, resourcePointer: string, seen: Set<object>) => {
+        if (!node || typeof node !== 'object' || seen.has(node)) return
+        seen.add(node)
+        const record = node as Record<string, any>
+        if (pointer !== resourcePointer && typeof record.$id === 'string') {
+            resource = record
+            resourcePointer = pointer
+        }
+
+        const match = typeof record.$ref === 'string' ? /^#\/\$defs\/([^/]+)$/.exec(record.$ref) : null
+        if (match) {
+            const name = match[1]!.replace(/~1/g, '/').replace(/~0/g, '~')
+            if (resource.$defs && typeof resource.$defs === 'object' && name in resource.$defs) {
+                record.$ref = `#${resourcePointer}/$defs/${match[1]}`
+            }
+        }
+
+        for (const [key, value] of Object.entries(record)) {
+            visit(value, `${pointer}/${escapeJsonPointerSegment(key)}`, resource, resourcePointer, seen)
+        }
+    }
+
+    for (const [name, schema] of Object.entries(document.components?.schemas ?? {})) {
+        const pointer = `/components/schemas/${escapeJsonPointerSegment(name)}`
+        visit(schema, pointer, schema, pointer, new Set())
+    }
+}
+
+/**
+ * Resolves a `#/$defs/...` ref left over by `anchorEmbeddedDefinitionRefs`, e.g. one in an inline
+ * schema, by looking for the definition in the component schemas. Returns null when no component or
+ * more than one embeds a definition of that name, since the ref could mean either.
+ */
+export function resolveEmbeddedDefinition<T = any>(document: OpenApiDocument, ref: string): T | null {
+    const match = /^#\/\$defs\/(.+)$/.exec(ref)
+    if (!match) return null
+    const name = match[1]!.replace(/~1/g, '/').replace(/~0/g, '~')
+    const candidates = Object.values(document.components?.schemas ?? {})
+        .map(schema => (schema as JsonSchema2020Keywords | undefined)?.$defs)
+        .filter(defs => !!defs && name in defs)
+    return candidates.length === 1 ? candidates[0]![name] as T : null
+}
+
+/**
+ * Short human-readable type label, e.g. `string(email) | null`, `[string, integer]` or `const "a"`
+ */
+export function describeSchemaType(schema: SchemaOrRef): string {
+    if (isReferenceObject(schema)) {
+        return schema.$ref.split('/').pop() || 'object'
+    }
+
+    if ('const' in schema && schema.const !== undefined) {
+        return `const ${JSON.stringify(schema.const)}`
+    }
+
+    const types = getSchemaTypes(schema)
+    const nonNullTypes = types.filter(type => type !== 'null')
+    const withNull = (label: string) => types.includes('null') && label !== 'null' ? `${label} | null` : label
+
+    if (Array.isArray(schema.prefixItems) && schema.prefixItems.length > 0) {
+        const tuple = schema.prefixItems.map(item => describeSchemaType(item))
+        if ('items' in schema && schema.items && typeof schema.items === 'object') {
+            tuple.push(`...${describeSchemaType(schema.items)}`)
+        }
+        return withNull(`[${tuple.join(', ')}]`)
+    }
+
+    if (nonNullTypes.includes('array') && 'items' in schema && schema.items) {
+        return withNull(`Array<${describeSchemaType(schema.items as SchemaOrRef)}>`)
+    }
+
+    if (nonNullTypes.length > 0) {
+        let label = nonNullTypes.join(' | ')
+        if (schema.format) {
+            label = `${label}(${schema.format})`
+        } else if (schema.contentMediaType) {
+            label = `${label}(${schema.contentMediaType})`
+        }
+        if (schema.enum) {
+            label = `${label} | ${schema.enum.map((e: any) => JSON.stringify(e)).join(' | ')}`
+        }
+        return withNull(label)
+    }
+
+    if (types.includes('null')) return 'null'
+    if (schema.allOf) return 'allOf'
+    if (schema.anyOf) return 'anyOf'
+    if (schema.oneOf) return 'oneOf'
+    return 'object'
+}
+
+export type SchemaVariant = {
+    kind: 'oneOf' | 'anyOf'
+    index: number
+    // Discriminator mapping name, referenced schema name, title, or `Option N`
+    label: string
+    schema: SchemaOrRef
+    // Value the discriminator property takes for this branch
+    discriminatorValue?: string
+}
+
+/**
+ * Lists the branches of a schema's `oneOf` (or, failing that, `anyOf`).
+ * Branches are labelled with their `discriminator.mapping` name when one maps to them; otherwise a
+ * $ref branch uses the schema name, which is also the implicit discriminator value.
+ */
+export function getSchemaVariants(schema: SchemaObject): SchemaVariant[] {
+    const kind = schema.oneOf && schema.oneOf.length > 0 ? 'oneOf' : schema.anyOf && schema.anyOf.length > 0 ? 'anyOf' : null
+    if (!kind) return []
+
+    const discriminator = 'discriminator' in schema ? schema.discriminator : undefined
+    const mapping = Object.entries(discriminator?.mapping ?? {})
+
+    return (schema[kind] as SchemaOrRef[]).map((branch, index) => {
+        if (isReferenceObject(branch)) {
+            const refName = branch.$ref.split('/').pop() || branch.$ref
+            // Mapping values are either full refs or bare schema names
+            const mapped = mapping.find(([, target]) => target === branch.$ref || target === refName)
+            const value = mapped ? mapped[0] : refName
+            return {
+                kind,
+                index,
+                label: value,
+                schema: branch,
+                ...(discriminator ? { discriminatorValue: value } : {}),
+            }
+        }
+        return {
+            kind,
+            index,
+            label: branch.title || `Option ${index + 1}`,
+            schema: branch,
+        }
+    })
+}
+
+// Direction a schema is used in: request bodies omit readOnly properties, responses omit writeOnly ones
+export type SchemaMode = 'request' | 'response'
+
+export function isReadOnly(schema: SchemaOrRef): boolean {
+    return (schema as SchemaObject).readOnly === true
+}
+
+export function isWriteOnly(schema: SchemaOrRef): boolean {
+    return (schema as SchemaObject).writeOnly === true
+}
+
+/**
+ * Whether a property schema is left out in the given mode. Pass both the property schema and its
+ * resolved $ref target, since 3.1 allows readOnly / writeOnly next to a $ref.
+ */
+export function isOmittedInMode(schemas: Array<SchemaOrRef | null | undefined>, mode: SchemaMode | undefined): boolean {
+    if (!mode) return false
+    const isOmitted = mode === 'request' ? isReadOnly : isWriteOnly
+    return schemas.some(schema => !!schema && isOmitted(schema))
+}
+
+/**
+ * Converts text typed into an input (parameters, form fields) into the value its schema describes,
+ * so it can be validated: numbers, booleans, and JSON for arrays and objects. Text that doesn't
+ * convert is returned unchanged and fails validation with a type error.
+ */
+export function coerceStringValue(raw: string, schema: SchemaObject | null): unknown {
+    const types = schema ? getSchemaTypes(schema) : []
+    if (types.includes('string') || types.length === 0) return raw
+    if (raw === '' && types.includes('null')) return null
+
+    for (const type of types) {
+        if ((type === 'integer' || type === 'number') && raw.trim() !== '' && !Number.isNaN(Number(raw))) return Number(raw)
+        if (type === 'boolean' && (raw === 'true' || raw === 'false')) return raw === 'true'
+        if (type === 'array' || type === 'object') {
+            try {
+                return JSON.parse(raw)
+            } catch {
+                // Not JSON; fall through
+            }
+        }
+    }
+    return raw
+}
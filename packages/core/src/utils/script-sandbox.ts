@@ -0,0 +1,101 @@
+// When a script runs: before the request is sent, or once its response arrived
+export type ScriptPhase = 'pre-request' | 'post-response'
+
+// Where the script is configured: on the service host (every endpoint) or on the endpoint itself
+export type ScriptScope = 'host' | 'endpoint'
+
+// Request as scripts see it; pre-request scripts may change any field
+export type ScriptRequest = {
+    method: string
+    url: string
+    headers: Record<string, string>
+    // Text body; null for multipart and binary bodies, which scripts can't read or replace
+    body: string | null
+}
+
+export type ScriptResponse = {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    // Text body; null for binary responses
+    body: string | null
+}
+
+export type ScriptTestResult = {
+    name: string
+    passed: boolean
+    error?: string
+}
+
+// Message posted to the worker
+export type ScriptRunInput = {
+    code: string
+    phase: ScriptPhase
+    request: ScriptRequest
+    response: ScriptResponse | null
+    // Variables of the active environment, readable with `env.get`
+    variables: Record<string, string>
+}
+
+// Message the worker posts back
+export type ScriptRunOutput = {
+    request: ScriptRequest
+    // Variables set with `env.set`
+    variableUpdates: Record<string, string>
+    tests: ScriptTestResult[]
+    // `console.*` output, prefixed with the level for warnings and errors
+    logs: string[]
+    error: string | null
+}
+
+export type ScriptRunResult = ScriptRunOutput & {
+    phase: ScriptPhase
+    scope: ScriptScope
+}
+
+// Scripts still running after this are stopped, so an endless loop can't hang the request
+export const SCRIPT_TIMEOUT_MS = 5000
+
+/**
+ * Runs a script in a fresh Web Worker, away from the page's DOM, storage and in-memory credentials.
+ * The worker is terminated once the script settles, fails, times out or `signal` aborts; the promise never rejects.
+ */
+export function runScript(
+    code: string,
+    scope: ScriptScope,
+    input: Omit<ScriptRunInput, 'code'>,
+    signal?: AbortSignal,
+    timeoutMs = SCRIPT_TIMEOUT_MS,
+): Promise<ScriptRunResult> {
+    const failed = (error: string): ScriptRunResult => ({
+        request: input.request,
+        variableUpdates: {},
+        tests: [],
+        logs: [],
+        error,
+        phase: input.phase,
+        scope,
+    })
+    if (signal?.aborted) return Promise.resolve(failed('Script cancelled'))
+
+    return new Promise(resolve => {
+        const worker = new Worker(new URL('../workers/script-runner.ts', import.meta.url), { type: 'module' })
+
+        const finish = (result: ScriptRunResult) => {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', onAbort)
+            worker.terminate()
+            resolve(result)
+        }
+        const onAbort = () => finish(failed('Script cancelled'))
+
+        const timer = setTimeout(() => finish(failed(`Script timed out after ${timeoutMs / 1000}s`)), timeoutMs)
+        signal?.addEventListener('abort', onAbort)
+        worker.onmessage = (event: MessageEvent<ScriptRunOutput>) => finish({ ...event.data, phase: input.phase, scope })
+        worker.onerror = (event) => {
+            event.preventDefault()
+            finish(failed(event.message || 'The script worker failed to start'))
+        }
+        worker.postMessage({ ...input, code } satisfies ScriptRunInput)
+    })
+}
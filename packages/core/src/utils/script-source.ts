@@ -0,0 +1,11 @@
+// `import` as a keyword (not a property like `obj.import`, but after a spread `...`), followed by `(` or `.`
+// with only whitespace or comments in between. Static imports are syntax errors in a function body, so this
+// catches `import()` and `import.meta` while strings and comments mentioning import (`// import later`) pass.
+const IMPORT_EXPRESSION = /(?<![\w$]|(?<!\.)\.)import(?:\s|\/\*[\s\S]*?\*\/|(?:\/\/|<!--|-->)[^\n\r\u2028\u2029]*)*[(.]/
+
+/**
+ * Whether script code uses dynamic `import()` (or `import.meta`)
+ */
+export function hasDynamicImport(code: string): boolean {
+    return IMPORT_EXPRESSION.test(code)
+}
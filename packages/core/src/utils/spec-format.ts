@@ -0,0 +1,59 @@
+import { parse as parseYaml } from 'yaml'
+
+export type SpecFormat = 'json' | 'yaml'
+
+const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml', 'application/vnd.oai.openapi']
+const YAML_EXTENSIONS = ['.yaml', '.yml']
+
+/**
+ * Detects whether a spec document is JSON or YAML.
+ * Checks the Content-Type first, then the URL extension, then sniffs the body.
+ */
+export function detectSpecFormat(text: string, contentType?: string | null, url?: string): SpecFormat {
+    const mediaType = contentType?.split(';')[0]?.trim().toLowerCase()
+    if (mediaType) {
+        if (mediaType === 'application/json' || mediaType.endsWith('+json') || mediaType === 'application/vnd.oai.openapi+json') {
+            return 'json'
+        }
+        if (YAML_CONTENT_TYPES.includes(mediaType) || mediaType.endsWith('+yaml')) {
+            return 'yaml'
+        }
+    }
+
+    if (url) {
+        let pathname = url
+        try {
+            pathname = new URL(url, 'http://localhost').pathname
+        } catch {
+            // Keep the raw value
+        }
+        pathname = pathname.toLowerCase()
+        if (pathname.endsWith('.json')) return 'json'
+        if (YAML_EXTENSIONS.some(ext => pathname.endsWith(ext))) return 'yaml'
+    }
+
+    // Sniff the body: JSON documents always start with an object or array
+    const trimmed = text.trimStart()
+    return trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'yaml'
+}
+
+/**
+ * Parses a JSON or YAML spec document into a plain object
+ */
+export function parseSpecText<T = any>(text: string, contentType?: string | null, url?: string): T {
+    const format = detectSpecFormat(text, contentType, url)
+    if (format === 'json') {
+        try {
+            return JSON.parse(text) as T
+        } catch (err) {
+            // Some servers label YAML as JSON (or serve JSON without a type); fall back to YAML,
+            // which is a superset of JSON, before giving up
+            try {
+                return parseYaml(text) as T
+            } catch {
+                throw err
+            }
+        }
+    }
+    return parseYaml(text) as T
+}
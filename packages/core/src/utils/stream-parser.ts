@@ -0,0 +1,143 @@
+// Streamed response formats the tester reads incrementally
+export type StreamFormat = 'sse' | 'ndjson'
+
+// One Server-Sent Event, or one line of an NDJSON stream
+export type StreamEvent = {
+    // When the event was received (epoch milliseconds)
+    timestamp: number
+    // SSE event name ('message' when the stream doesn't name it); unset for NDJSON
+    event?: string
+    // SSE last event id at the time of the event
+    id?: string
+    data: string
+}
+
+export type StreamParser = {
+    // Feeds decoded text; complete events are passed to the parser's callback
+    push: (chunk: string) => void
+    // Handles whatever is left once the stream ends
+    flush: () => void
+}
+
+/**
+ * Streaming format of a response Content-Type, or null for regular responses
+ */
+export function getStreamFormat(contentType: string | null | undefined): StreamFormat | null {
+    const type = (contentType ?? '').split(';')[0]!.trim().toLowerCase()
+    if (type === 'text/event-stream') return 'sse'
+    if (type === 'application/x-ndjson' || type === 'application/ndjson' || type === 'application/jsonl' || type === 'application/jsonlines') return 'ndjson'
+    return null
+}
+
+/**
+ * Splits buffered text into complete lines (CRLF, LF or CR terminated) and keeps the incomplete rest.
+ * A trailing CR is held back because the LF of its CRLF may arrive in the next chunk.
+ */
+function takeLines(buffer: string): { lines: string[]; rest: string } {
+    const lines: string[] = []
+    let start = 0
+    for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i]
+        if (char === '\r') {
+            if (i === buffer.length - 1) break
+            lines.push(buffer.slice(start, i))
+            if (buffer[i + 1] === '\n') i++
+            start = i + 1
+        } else if (char === '\n') {
+            lines.push(buffer.slice(start, i))
+            start = i + 1
+        }
+    }
+    return { lines, rest: buffer.slice(start) }
+}
+
+/**
+ * Creates an incremental parser for `text/event-stream` bodies, following the HTML event stream format:
+ * `data` lines are joined with newlines, a blank line dispatches the event, `:` lines are comments
+ */
+export function createSseParser(onEvent: (event: StreamEvent) => void): StreamParser {
+    let buffer = ''
+    let data: string[] = []
+    let eventName = ''
+    let lastEventId = ''
+
+    const dispatch = () => {
+        if (data.length > 0) {
+            onEvent({
+                timestamp: Date.now(),
+                event: eventName || 'message',
+                id: lastEventId || undefined,
+                data: data.join('\n'),
+            })
+        }
+        data = []
+        eventName = ''
+    }
+
+    const processLine = (line: string) => {
+        if (line === '') {
+            dispatch()
+            return
+        }
+        if (line.startsWith(':')) return
+
+        const colon = line.indexOf(':')
+        const field = colon === -1 ? line : line.slice(0, colon)
+        let value = colon === -1 ? '' : line.slice(colon + 1)
+        if (value.startsWith(' ')) value = value.slice(1)
+
+        switch (field) {
+            case 'data':
+                data.push(value)
+                break
+            case 'event':
+                eventName = value
+                break
+            case 'id':
+                if (!value.includes('\0')) lastEventId = value
+                break
+            // `retry` only matters for EventSource reconnection; other fields are ignored per the spec
+        }
+    }
+
+    return {
+        push(chunk: string) {
+            const { lines, rest } = takeLines(buffer + chunk)
+            buffer = rest
+            lines.forEach(processLine)
+        },
+        flush() {
+            // An event without its terminating blank line is discarded, as EventSource does
+            buffer = ''
+            data = []
+            eventName = ''
+        },
+    }
+}
+
+/**
+ * Creates an incremental parser for newline-delimited JSON; every non-empty line is one event
+ */
+export function createNdjsonParser(onEvent: (event: StreamEvent) => void): StreamParser {
+    let buffer = ''
+
+    const processLine = (line: string) => {
+        if (line.trim() !== '') onEvent({ timestamp: Date.now(), data: line })
+    }
+
+    return {
+        push(chunk: string) {
+            const { lines, rest } = takeLines(buffer + chunk)
+            buffer = rest
+            lines.forEach(processLine)
+        },
+        flush() {
+            processLine(buffer)
+            buffer = ''
+        },
+    }
+}
+
+export function createStreamParser(format: StreamFormat, onEvent: (event: StreamEvent) => void): StreamParser {
+    return format === 'sse' ? createSseParser(onEvent) : createNdjsonParser(onEvent)
+}
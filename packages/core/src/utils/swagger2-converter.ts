@@ -0,0 +1,443 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types'
+import { resolveLocalReference } from '@/utils/ref-resolver'
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const
+
+// Schema keywords Swagger 2.0 allows directly on non-body parameters, items and headers
+const PARAMETER_SCHEMA_KEYS = [
+    'type',
+    'format',
+    'items',
+    'default',
+    'maximum',
+    'exclusiveMaximum',
+    'minimum',
+    'exclusiveMinimum',
+    'maxLength',
+    'minLength',
+    'pattern',
+    'maxItems',
+    'minItems',
+    'uniqueItems',
+    'enum',
+    'multipleOf',
+] as const
+
+const FORM_CONTENT_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded']
+
+/**
+ * Checks whether a parsed document is a Swagger 2.0 document
+ */
+export function isSwagger2Document(document: any): document is OpenAPIV2.Document {
+    return !!document && typeof document === 'object' && typeof document.swagger === 'string' && document.swagger.startsWith('2.')
+}
+
+/**
+ * Rewrites Swagger 2.0 ref locations to their OpenAPI 3 components equivalent
+ */
+function convertRef(ref: string, bodyParameterNames: Set<string>): string {
+    if (ref.startsWith('#/definitions/')) {
+        return ref.replace('#/definitions/', '#/components/schemas/')
+    }
+    if (ref.startsWith('#/responses/')) {
+        return ref.replace('#/responses/', '#/components/responses/')
+    }
+    if (ref.startsWith('#/parameters/')) {
+        const name = ref.slice('#/parameters/'.length)
+        return bodyParameterNames.has(name)
+            ? `#/components/requestBodies/${name}`
+            : `#/components/parameters/${name}`
+    }
+    return ref
+}
+
+/**
+ * Converts a Swagger 2.0 schema (or items/header object) into an OpenAPI 3.0 schema
+ */
+function convertSchema(schema: any, bodyParameterNames: Set<string>): any {
+    if (Array.isArray(schema)) {
+        return schema.map(item => convertSchema(item, bodyParameterNames))
+    }
+    if (!schema || typeof schema !== 'object') return schema
+
+    const result: Record<string, any> = {}
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === '$ref' && typeof value === 'string') {
+            result.$ref = convertRef(value, bodyParameterNames)
+        } else if (key === 'x-nullable') {
+            if (value === true) result.nullable = true
+        } else if (key === 'discriminator' && typeof value === 'string') {
+            result.discriminator = { propertyName: value }
+        } else if (key === 'type' && value === 'file') {
+            result.type = 'string'
+            result.format = 'binary'
+        } else if (key === 'collectionFormat') {
+            // Handled by the parameter style
+        } else if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = Object.fromEntries(
+                Object.entries(value).map(([name, propSchema]) => [name, convertSchema(propSchema, bodyParameterNames)])
+            )
+        } else if (['items', 'additionalProperties', 'not'].includes(key) || ['allOf', 'anyOf', 'oneOf'].includes(key)) {
+            result[key] = convertSchema(value, bodyParameterNames)
+        } else {
+            result[key] = value
+        }
+    }
+    return result
+}
+
+/**
+ * Builds a schema from the schema keywords found directly on a parameter or header
+ */
+function extractParameterSchema(source: any, bodyParameterNames: Set<string>): OpenAPIV3.SchemaObject {
+    const schema: Record<string, any> = {}
+    for (const key of PARAMETER_SCHEMA_KEYS) {
+        if (source[key] !== undefined) {
+            schema[key] = source[key]
+        }
+    }
+    return convertSchema(schema, bodyParameterNames)
+}
+
+/**
+ * Maps a Swagger 2.0 collectionFormat onto an OpenAPI 3 style/explode pair
+ */
+function convertCollectionFormat(location: string, collectionFormat: string | undefined): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+    if (!collectionFormat) return {}
+    switch (collectionFormat) {
+        case 'multi':
+            return { style: 'form', explode: true }
+        case 'ssv':
+            return { style: 'spaceDelimited', explode: false }
+        case 'pipes':
+            return { style: 'pipeDelimited', explode: false }
+        case 'csv':
+        default:
+            return location === 'query' || location === 'cookie'
+                ? { style: 'form', explode: false }
+                : { style: 'simple', explode: false }
+    }
+}
+
+function convertParameter(param: any, bodyParameterNames: Set<string>): OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject {
+    if (param.$ref) {
+        return { $ref: convertRef(param.$ref, bodyParameterNames) }
+    }
+
+    const converted: OpenAPIV3.ParameterObject = {
+        name: param.name,
+        in: param.in,
+    }
+    if (param.description) converted.description = param.description
+    if (param.required || param.in === 'path') converted.required = true
+    if (param.allowEmptyValue) converted.allowEmptyValue = true
+    converted.schema = extractParameterSchema(param, bodyParameterNames)
+    if (param.type === 'array') {
+        Object.assign(converted, convertCollectionFormat(param.in, param.collectionFormat))
+    }
+    if (param['x-example'] !== undefined) converted.example = param['x-example']
+    return converted
+}
+
+function convertHeaders(headers: Record<string, any> | undefined, bodyParameterNames: Set<string>): Record<string, OpenAPIV3.HeaderObject> | undefined {
+    if (!headers) return undefined
+    const result: Record<string, OpenAPIV3.HeaderObject> = {}
+    for (const [name, header] of Object.entries(headers)) {
+        result[name] = {
+            ...(header.description ? { description: header.description } : {}),
+            schema: extractParameterSchema(header, bodyParameterNames),
+        }
+    }
+    return result
+}
+
+function convertResponse(response: any, produces: string[], bodyParameterNames: Set<string>): OpenAPIV3.ResponseObject | OpenAPIV3.ReferenceObject {
+    if (response.$ref) {
+        return { $ref: convertRef(response.$ref, bodyParameterNames) }
+    }
+
+    const converted: OpenAPIV3.ResponseObject = {
+        description: response.description ?? '',
+    }
+    if (response.schema) {
+        const schema = convertSchema(response.schema, bodyParameterNames)
+        converted.content = {}
+        for (const mediaType of produces) {
+            converted.content[mediaType] = { schema }
+            if (response.examples?.[mediaType] !== undefined) {
+                converted.content[mediaType].example = response.examples[mediaType]
+            }
+        }
+    }
+    const headers = convertHeaders(response.headers, bodyParameterNames)
+    if (headers) converted.headers = headers
+    return converted
+}
+
+function convertBodyParameter(param: any, consumes: string[], bodyParameterNames: Set<string>): OpenAPIV3.RequestBodyObject {
+    const schema = convertSchema(param.schema ?? {}, bodyParameterNames)
+    const mediaTypes = consumes.filter(type => !FORM_CONTENT_TYPES.includes(type))
+    const content: Record<string, OpenAPIV3.MediaTypeObject> = {}
+    for (const mediaType of mediaTypes.length > 0 ? mediaTypes : ['application/json']) {
+        content[mediaType] = { schema }
+        if (param['x-examples']?.[mediaType] !== undefined) {
+            content[mediaType].example = param['x-examples'][mediaType]
+        }
+    }
+    return {
+        ...(param.description ? { description: param.description } : {}),
+        ...(param.required ? { required: true } : {}),
+        content,
+    }
+}
+
+function convertFormDataParameters(params: any[], consumes: string[], bodyParameterNames: Set<string>): OpenAPIV3.RequestBodyObject {
+    const schema: OpenAPIV3.SchemaObject = { type: 'object', properties: {} }
+    const required: string[] = []
+    const encoding: Record<string, OpenAPIV3.EncodingObject> = {}
+
+    for (const param of params) {
+        const propertySchema: any = extractParameterSchema(param, bodyParameterNames)
+        if (param.description) propertySchema.description = param.description
+        schema.properties![param.name] = propertySchema
+        if (param.required) required.push(param.name)
+        if (param.type === 'array' && param.collectionFormat) {
+            encoding[param.name] = convertCollectionFormat('query', param.collectionFormat)
+        }
+    }
+    if (required.length > 0) schema.required = required
+
+    const hasFile = params.some(param => param.type === 'file')
+    let mediaTypes = consumes.filter(type => FORM_CONTENT_TYPES.includes(type))
+    if (mediaTypes.length === 0) {
+        mediaTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded']
+    }
+
+    const content: Record<string, OpenAPIV3.MediaTypeObject> = {}
+    for (const mediaType of mediaTypes) {
+        content[mediaType] = {
+            schema,
+            ...(Object.keys(encoding).length > 0 ? { encoding } : {}),
+        }
+    }
+    return {
+        ...(required.length > 0 ? { required: true } : {}),
+        content,
+    }
+}
+
+function convertSecurityScheme(scheme: any): OpenAPIV3.SecuritySchemeObject {
+    const description = scheme.description ? { description: scheme.description } : {}
+    switch (scheme.type) {
+        case 'basic':
+            return { type: 'http', scheme: 'basic', ...description }
+        case 'apiKey':
+            return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description }
+        case 'oauth2': {
+            const scopes = scheme.scopes ?? {}
+            const flows: OpenAPIV3.OAuth2SecurityScheme['flows'] = {}
+            if (scheme.flow === 'implicit') {
+                flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes }
+            } else if (scheme.flow === 'password') {
+                flows.password = { tokenUrl: scheme.tokenUrl, scopes }
+            } else if (scheme.flow === 'application') {
+                flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes }
+            } else if (scheme.flow === 'accessCode') {
+                flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes }
+            }
+            return { type: 'oauth2', flows, ...description }
+        }
+        default:
+            return { ...scheme }
+    }
+}
+
+/**
+ * Builds the servers list from host, basePath and schemes.
+ * Missing host/schemes fall back to the location the spec was loaded from, as Swagger 2.0 specifies.
+ */
+function convertServers(document: OpenAPIV2.Document, specUrl?: string): OpenAPIV3.ServerObject[] {
+    let specLocation: URL | null = null
+    if (specUrl) {
+        try {
+            specLocation = new URL(specUrl)
+        } catch {
+            specLocation = null
+        }
+    }
+
+    const basePath = document.basePath && document.basePath !== '/' ? document.basePath.replace(/\/$/, '') : ''
+    const host = document.host ?? specLocation?.host
+    if (!host) {
+        return [{ url: basePath || '/' }]
+    }
+
+    const schemes = document.schemes && document.schemes.length > 0
+        ? document.schemes
+        : [specLocation?.protocol.replace(':', '') || 'https']
+    return schemes.map(scheme => ({ url: `${scheme}://${host}${basePath}` }))
+}
+
+// Operation fields that carry over from Swagger 2.0 unchanged
+const OPERATION_FIELDS = ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security'] as const
+
+export interface Swagger2ConversionResult {
+    document: OpenAPIV3.Document
+    // Parts of the document that could not be converted
+    warnings: string[]
+}
+
+function isReference(value: object): value is OpenAPIV2.ReferenceObject {
+    return typeof (value as Partial<OpenAPIV2.ReferenceObject>).$ref === 'string'
+}
+
+// Copies the fields of `source` among `keys` that are set
+function pickDefined<T extends object, K extends keyof T>(source: T, keys: readonly K[]): Partial<Pick<T, K>> {
+    return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]])) as Partial<Pick<T, K>>
+}
+
+/**
+ * Converts a Swagger 2.0 document into an equivalent OpenAPI 3.0 document.
+ *
+ * Covers definitions → components.schemas, body/formData parameters → requestBody,
+ * host/basePath/schemes → servers, securityDefinitions → components.securitySchemes,
+ * and produces/consumes → media types on responses and request bodies.
+ * Path items referencing another path item of the document are inlined; other path item refs are reported.
+ */
+export function convertSwagger2ToOpenApi3(document: OpenAPIV2.Document, specUrl?: string): Swagger2ConversionResult {
+    const globalConsumes = document.consumes ?? ['application/json']
+    const globalProduces = document.produces ?? ['application/json']
+    const globalParameters: OpenAPIV2.ParametersDefinitionsObject = document.parameters ?? {}
+    const warnings: string[] = []
+
+    // Shared body parameters become requestBodies, so refs to them are rewritten accordingly
+    const bodyParameterNames = new Set(
+        Object.entries(globalParameters)
+            .filter(([, param]) => param?.in === 'body')
+            .map(([name]) => name)
+    )
+
+    // Shared parameter a `#/parameters/…` ref points to, or the parameter itself; null when the ref can't be resolved
+    const resolveParameterRef = (param: OpenAPIV2.ReferenceObject | OpenAPIV2.Parameter): OpenAPIV2.ParameterObject | null => {
+        if (!isReference(param)) return param
+        return param.$ref.startsWith('#/parameters/') ? globalParameters[param.$ref.slice('#/parameters/'.length)] ?? null : null
+    }
+    const getParameterKey = (param: OpenAPIV2.ReferenceObject | OpenAPIV2.Parameter): string | null => {
+        const resolved = resolveParameterRef(param)
+        return resolved ? `${resolved.in}:${resolved.name}` : null
+    }
+
+    const components: OpenAPIV3.ComponentsObject = {}
+
+    if (document.definitions) {
+        components.schemas = Object.fromEntries(
+            Object.entries(document.definitions).map(([name, schema]) => [name, convertSchema(schema, bodyParameterNames)])
+        )
+    }
+
+    for (const [name, param] of Object.entries(globalParameters)) {
+        if (param.in === 'body') {
+            components.requestBodies ??= {}
+            components.requestBodies[name] = convertBodyParameter(param, globalConsumes, bodyParameterNames)
+        } else if (param.in !== 'formData') {
+            // formData parameters are merged into each operation's request body instead
+            components.parameters ??= {}
+            components.parameters[name] = convertParameter(param, bodyParameterNames) as OpenAPIV3.ParameterObject
+        }
+    }
+
+    if (document.responses) {
+        components.responses = Object.fromEntries(
+            Object.entries(document.responses).map(([name, response]) => [name, convertResponse(response, globalProduces, bodyParameterNames)])
+        ) as Record<string, OpenAPIV3.ResponseObject>
+    }
+
+    if (document.securityDefinitions) {
+        components.securitySchemes = Object.fromEntries(
+            Object.entries(document.securityDefinitions).map(([name, scheme]) => [name, convertSecurityScheme(scheme)])
+        )
+    }
+
+    const paths: OpenAPIV3.PathsObject = {}
+    for (const [path, ownPathItem] of Object.entries(document.paths ?? {})) {
+        if (!ownPathItem) continue
+        let pathItem = ownPathItem
+        if (ownPathItem.$ref) {
+            // Fields next to the $ref win over the referenced path item's
+            const { $ref, ...fields } = ownPathItem
+            const target = resolveLocalReference<OpenAPIV2.PathItemObject>(document, $ref)
+            if (!target || typeof target !== 'object') {
+                warnings.push(`Unresolved path item $ref "${$ref}" for ${path}: Swagger 2.0 path items can only be converted from the same document`)
+                continue
+            }
+            pathItem = { ...target, ...fields }
+        }
+        const pathParameters = pathItem.parameters ?? []
+        const convertedPathItem: OpenAPIV3.PathItemObject = {}
+
+        for (const method of HTTP_METHODS) {
+            const operation = pathItem[method]
+            if (!operation) continue
+
+            const consumes = operation.consumes ?? globalConsumes
+            const produces = operation.produces ?? globalProduces
+
+            // Operation-level parameters override path-level ones with the same name and location
+            const operationParameters = operation.parameters ?? []
+            const overridden = new Set(operationParameters.map(getParameterKey))
+            const parameters = [
+                ...pathParameters.filter(p => {
+                    const key = getParameterKey(p)
+                    return key === null || !overridden.has(key)
+                }),
+                ...operationParameters,
+            ]
+
+            const convertedOperation: OpenAPIV3.OperationObject = {
+                ...pickDefined(operation, OPERATION_FIELDS),
+                responses: {},
+            }
+
+            const convertedParameters: Array<OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject> = []
+            const formDataParameters: OpenAPIV2.ParameterObject[] = []
+            for (const param of parameters) {
+                const resolved = resolveParameterRef(param)
+                if (resolved?.in === 'body') {
+                    convertedOperation.requestBody = isReference(param) && bodyParameterNames.has(param.$ref.slice('#/parameters/'.length))
+                        ? { $ref: convertRef(param.$ref, bodyParameterNames) }
+                        : convertBodyParameter(resolved, consumes, bodyParameterNames)
+                } else if (resolved?.in === 'formData') {
+                    formDataParameters.push(resolved)
+                } else {
+                    convertedParameters.push(convertParameter(param, bodyParameterNames))
+                }
+            }
+            if (formDataParameters.length > 0) {
+                convertedOperation.requestBody = convertFormDataParameters(formDataParameters, consumes, bodyParameterNames)
+            }
+            if (convertedParameters.length > 0) {
+                convertedOperation.parameters = convertedParameters
+            }
+
+            for (const [code, response] of Object.entries(operation.responses ?? {})) {
+                if (response) convertedOperation.responses[code] = convertResponse(response, produces, bodyParameterNames)
+            }
+
+            convertedPathItem[method] = convertedOperation
+        }
+
+        paths[path] = convertedPathItem
+    }
+
+    const converted: OpenAPIV3.Document = {
+        openapi: '3.0.3',
+        info: document.info ?? { title: 'Untitled', version: '' },
+        servers: convertServers(document, specUrl),
+        paths,
+        components,
+    }
+    if (document.security) converted.security = document.security
+    if (document.tags) converted.tags = document.tags
+    if (document.externalDocs) converted.externalDocs = document.externalDocs
+    return { document: converted, warnings }
+}
@@ -3,6 +3,39 @@ export interface Config {
     serviceHost?: string
     clerkPublishableKey?: string
     openApiSpecUrl?: string
+    // Nesting depth at which generated examples stop descending into (recursive) schemas
+    exampleMaxDepth?: number
+}
+
+// Free-form request header; disabled entries are kept but not sent
+export interface HeaderEntry {
+    name: string
+    value: string
+    enabled: boolean
+}
+
+// Variable of an environment, referenced as `{{name}}` in requests; disabled entries are kept but not resolved
+export interface EnvironmentVariable {
+    name: string
+    value: string
+    enabled: boolean
+    // Masked in the editor and in request history
+    secret: boolean
+}
+
+// Named set of variables (a tenant, a user, a stage) used when sending requests to a service host
+export interface Environment {
+    id: string
+    name: string
+    variables: EnvironmentVariable[]
+}
+
+// Scripts run in a sandboxed worker around a request; see `utils/script-sandbox.ts` for their API
+export interface RequestScripts {
+    // Runs before the request is sent and may modify it
+    preRequest?: string
+    // Runs once the response has arrived
+    postResponse?: string
 }
 
 // Service host type, stored in localStorage
@@ -12,4 +45,13 @@ export interface ServiceHost {
     openApiPath?: string
     label?: string
     clerkPublishableKey?: string
+    // Headers added to every request to this host; per-request headers with the same name win
+    defaultHeaders?: HeaderEntry[]
+    // Seconds before a request to this host is aborted; overrides the global timeout (0 = no timeout)
+    requestTimeout?: number
+    // Environments of this host and the one requests currently resolve `{{variables}}` against
+    environments?: Environment[]
+    activeEnvironmentId?: string
+    // Scripts run for every request to this host, before the endpoint's own scripts
+    scripts?: RequestScripts
 }
\ No newline at end of file
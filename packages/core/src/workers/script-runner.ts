@@ -0,0 +1,146 @@
+/**
+ * Worker running one pre-request or post-response script (see `utils/script-sandbox.ts`).
+ *
+ * Scripts are async function bodies (`await` works at the top level) with these globals:
+ * - `request` — `{ method, url, headers, body }`; changes made by pre-request scripts are sent
+ * - `response` — post-response only: `{ status, statusText, headers, body }` and `response.json()`
+ * - `env.get(name)` / `env.set(name, value)` — variables of the active environment
+ * - `test(name, fn)` — records a passing test, or a failing one when `fn` throws or rejects
+ * - `assert(condition, message)` — throws when the condition is falsy
+ * - `console.log/info/warn/error`, and the worker's `crypto`, `TextEncoder`, `btoa`/`atob`
+ *
+ * Network, storage and messaging APIs are removed before the script runs, and scripts calling `import()` are rejected:
+ * a module worker would otherwise load (and leak data to) any URL through dynamic `import()`. So that check can't be
+ * got around, code can't be compiled at run time either (`eval`, the `Function` constructors, string timers).
+ * This keeps scripts from touching the page and its credentials; it is not meant to contain deliberately hostile
+ * code. Scripts can still use the CPU until they time out, and browser APIs not listed here are not blocked.
+ */
+import type { ScriptRequest, ScriptRunInput, ScriptRunOutput, ScriptTestResult } from '@/utils/script-sandbox'
+import { hasDynamicImport } from '@/utils/script-source'
+
+const post = self.postMessage.bind(self)
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => (...args: unknown[]) => Promise<unknown>
+
+const BLOCKED_GLOBALS = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+    'BroadcastChannel', 'Worker', 'SharedWorker', 'postMessage', 'eval', 'Function',
+]
+// Web APIs live on the prototypes of the global scope (WorkerGlobalScope, EventTarget, …), so each level is covered
+for (let scope: object | null = globalThis; scope; scope = Object.getPrototypeOf(scope)) {
+    for (const name of BLOCKED_GLOBALS) {
+        if (scope !== globalThis && !Object.prototype.hasOwnProperty.call(scope, name)) continue
+        try {
+            Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false })
+        } catch {
+            // Non-configurable in this browser
+        }
+    }
+}
+
+// `(async () => {}).constructor` and friends compile code just like `Function`
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false })
+}
+// Timers only take functions; a string handler would be compiled
+for (const name of ['setTimeout', 'setInterval'] as const) {
+    const timer = self[name].bind(self) as (handler: () => void, ...args: unknown[]) => number
+    Object.defineProperty(self, name, {
+        value: (handler: unknown, ...args: unknown[]) => {
+            if (typeof handler !== 'function') throw new TypeError(`${name} only accepts a function in scripts`)
+            return timer(handler as () => void, ...args)
+        },
+        writable: false,
+        configurable: false,
+    })
+}
+
+const formatLogValue = (value: unknown): string => {
+    if (typeof value === 'string') return value
+    if (value instanceof Error) return value.message
+    try {
+        return JSON.stringify(value) ?? String(value)
+    } catch {
+        return String(value)
+    }
+}
+
+const errorMessage = (err: unknown): string => err instanceof Error ? `${err.name}: ${err.message}` : formatLogValue(err)
+
+// Scripts may have put other types into the request; it has to go back as strings
+const toScriptRequest = (request: ScriptRequest, original: ScriptRequest): ScriptRequest => ({
+    method: String(request?.method ?? original.method).toUpperCase(),
+    url: String(request?.url ?? original.url),
+    headers: Object.fromEntries(Object.entries(request?.headers ?? {})
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([name, value]) => [name, String(value)])),
+    // Multipart and binary bodies stay as they are; otherwise null or a deleted body sends none
+    body: original.body === null || request?.body === null || request?.body === undefined ? null : String(request.body),
+})
+
+self.onmessage = async (event: MessageEvent<ScriptRunInput>) => {
+    const { code, phase, response, variables } = event.data
+    const request: ScriptRequest = structuredClone(event.data.request)
+    const variableUpdates: Record<string, string> = {}
+    const tests: ScriptTestResult[] = []
+    const logs: string[] = []
+    const pendingTests: Promise<void>[] = []
+
+    const log = (level: string) => (...values: unknown[]) => {
+        logs.push(`${level}${values.map(formatLogValue).join(' ')}`)
+    }
+    const scriptConsole = { log: log(''), info: log(''), debug: log(''), warn: log('[warn] '), error: log('[error] ') }
+
+    const env = {
+        get: (name: string): string | undefined => {
+            if (Object.prototype.hasOwnProperty.call(variableUpdates, name)) return variableUpdates[name]
+            return Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : undefined
+        },
+        set: (name: string, value: unknown) => {
+            variableUpdates[String(name)] = typeof value === 'string' ? value : formatLogValue(value)
+        },
+    }
+
+    const test = (name: string, fn: () => unknown) => {
+        const record = (error?: unknown) => {
+            tests.push(error === undefined ? { name, passed: true } : { name, passed: false, error: errorMessage(error) })
+        }
+        try {
+            const result = fn()
+            if (result instanceof Promise) {
+                pendingTests.push(result.then(() => record(), (err: unknown) => record(err ?? 'Test failed')))
+            } else {
+                record()
+            }
+        } catch (err) {
+            record(err ?? 'Test failed')
+        }
+    }
+
+    const assert = (condition: unknown, message = 'Assertion failed') => {
+        if (!condition) throw new Error(message)
+    }
+
+    const scriptResponse = response && phase === 'post-response'
+        ? { ...response, json: () => JSON.parse(response.body ?? '') as unknown }
+        : undefined
+
+    let error: string | null = null
+    try {
+        if (hasDynamicImport(code)) throw new Error('Scripts cannot use import(); loading code or data from URLs is blocked')
+        const run = new AsyncFunction('request', 'response', 'env', 'test', 'assert', 'console', `"use strict";\n${code}`)
+        await run(request, scriptResponse, env, test, assert, scriptConsole)
+        await Promise.all(pendingTests)
+    } catch (err) {
+        error = errorMessage(err)
+    }
+
+    const output: ScriptRunOutput = {
+        request: phase === 'pre-request' ? toScriptRequest(request, event.data.request) : event.data.request,
+        variableUpdates,
+        tests,
+        logs,
+        error,
+    }
+    post(output)
+}
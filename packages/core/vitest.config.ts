@@ -0,0 +1,14 @@
+import * as path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': path.resolve(__dirname, 'src'),
+        },
+    },
+    test: {
+        environment: 'node',
+        include: ['src/**/__tests__/*.spec.ts'],
+    },
+});